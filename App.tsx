@@ -1,23 +1,113 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { changePose } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { changePose, type ChangePoseOptions } from './services/geminiService';
+import { getImageProvider } from './services/imageProvider';
+import { filledGarments, hasRequestedChanges, imageFileFromDataUrl, validateEditRequest } from './services/editRequest';
+import { runWithConcurrency } from './services/concurrency';
+import { appendStep, createChain, currentNode, goTo, redo, undo } from './services/editChain';
+import { DEFAULT_POSE, renderSkeletonImage } from './services/poseSkeleton';
+import { classifyError, ERROR_GUIDANCE, type GenerationError } from './services/errors';
+import { buildPrompt } from './services/promptBuilder';
+import { addHistoryEntry, clearHistory, deleteHistoryEntry, listHistory } from './services/historyStore';
+import { deletePreset, listPresets, savePreset } from './services/presetStore';
+import { BUILT_IN_PRESETS, makeThumbnail, swatchThumbnail } from './services/presets';
+import { isPreservationViolated, lowestScore, scorePreservation } from './services/preservation';
+import { finishedVariants, parseProjectState } from './services/project';
+import { loadGenerationSettings, normalizeGenerationSettings, saveGenerationSettings, validateGenerationSettings } from './services/generationSettings';
+import { clearAutosave, loadAutosave, saveAutosave, type Autosave } from './services/projectStore';
+import { translateRequest } from './services/translation';
+import {
+  loadTemplateSelection,
+  loadUserTemplates,
+  resolveTemplates,
+  saveTemplateSelection,
+  saveUserTemplates,
+} from './services/promptTemplates';
 import { Header } from './components/Header';
 import { ImageUploader } from './components/ImageUploader';
 import { Loader } from './components/Loader';
-import { ImageDisplay } from './components/ImageDisplay';
-import type { ImageFile } from './types';
-import { INITIAL_IMAGE_URL } from './constants';
+import { VariantGrid } from './components/VariantGrid';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { HistoryGallery } from './components/HistoryGallery';
+import { EditChainPanel } from './components/EditChainPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { SequencePanel } from './components/SequencePanel';
+import { PoseEditor } from './components/PoseEditor';
+import { MaskEditor } from './components/MaskEditor';
+import { ImageCropper } from './components/ImageCropper';
+import { ErrorModal } from './components/ErrorModal';
+import { PresetLibrary } from './components/PresetLibrary';
+import { CompareViewer } from './components/CompareViewer';
+import { ExportPanel } from './components/ExportPanel';
+import { SubjectOverlay, SubjectSelector } from './components/SubjectSelector';
+import { OutfitBuilder } from './components/OutfitBuilder';
+import { ProjectControls } from './components/ProjectControls';
+import { GenerationSettingsPanel } from './components/GenerationSettingsPanel';
+import { TextFieldStatus } from './components/TextFieldStatus';
+import type { EditChain, EditRequest, GenerationSettings, HistoryEntry, ImageFile, Outfit, PoseKeypoints, PreservationScores, ProjectState, PromptSection, PromptTemplate, SequenceFrame, StylePreset, Subject, TemplateSelection, VariantSlot } from './types';
+import {
+  AUTOSAVE_DELAY_MS,
+  DEFAULT_MAX_IMAGE_DIMENSION,
+  DEFAULT_PRESERVATION_THRESHOLD,
+  DEFAULT_TIMEOUT_MS,
+  INITIAL_IMAGE_URL,
+  MAX_CONCURRENT_REQUESTS,
+  MAX_IMAGE_DIMENSION_OPTIONS,
+  MAX_PRESERVATION_RETRIES,
+  MAX_USER_TEXT_LENGTH,
+  MAX_VARIANTS,
+  PRESERVATION_THRESHOLD_OPTIONS,
+  TIMEOUT_OPTIONS_MS,
+} from './constants';
+
+// The main image is decoded at full size so the crop step can apply the chosen limit itself.
+const FULL_SIZE_UPLOAD_DIMENSION = Math.max(...MAX_IMAGE_DIMENSION_OPTIONS);
+
+interface GenerationSession {
+  id: number;
+  controller: AbortController;
+}
 
 const App: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
+  const [chain, setChain] = useState<EditChain | null>(null);
+  const originalImage = chain ? currentNode(chain).image : null;
   const [backgroundImage, setBackgroundImage] = useState<ImageFile | null>(null);
   const [clothingImage, setClothingImage] = useState<ImageFile | null>(null);
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [poseImage, setPoseImage] = useState<ImageFile | null>(null);
+  const [poseSource, setPoseSource] = useState<'photo' | 'skeleton'>('photo');
+  const [poseKeypoints, setPoseKeypoints] = useState<PoseKeypoints>(DEFAULT_POSE);
+  const [mask, setMask] = useState<ImageFile | null>(null);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [isSelectingSubjects, setIsSelectingSubjects] = useState<boolean>(false);
+  const [pendingUpload, setPendingUpload] = useState<ImageFile | null>(null);
+  const [maxImageDimension, setMaxImageDimension] = useState<number>(DEFAULT_MAX_IMAGE_DIMENSION);
+  const [variants, setVariants] = useState<VariantSlot[]>([]);
+  const [selectedVariant, setSelectedVariant] = useState<number>(0);
+  const [variantCount, setVariantCount] = useState<number>(1);
   const [prompt, setPrompt] = useState<string>('');
   const [clothingPrompt, setClothingPrompt] = useState<string>('');
+  const [outfit, setOutfit] = useState<Outfit>({});
   const [backgroundPrompt, setBackgroundPrompt] = useState<string>('');
   const [preserveBodyShape, setPreserveBodyShape] = useState<boolean>(true);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [generationError, setGenerationError] = useState<GenerationError | null>(null);
+  const lastGenerationRef = useRef<{ request: EditRequest; count: number } | null>(null);
+  const sessionRef = useRef<GenerationSession>({ id: 0, controller: new AbortController() });
+  const [timeoutMs, setTimeoutMs] = useState<number>(DEFAULT_TIMEOUT_MS);
+  const [checkPreservation, setCheckPreservation] = useState<boolean>(false);
+  const [autoRetryPreservation, setAutoRetryPreservation] = useState<boolean>(false);
+  const [preservationThreshold, setPreservationThreshold] = useState<number>(DEFAULT_PRESERVATION_THRESHOLD);
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(loadUserTemplates);
+  const [templateSelection, setTemplateSelection] = useState<TemplateSelection>(loadTemplateSelection);
+  const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(loadGenerationSettings);
+  const [showPrompt, setShowPrompt] = useState<boolean>(false);
+  const [showCompare, setShowCompare] = useState<boolean>(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [userPresets, setUserPresets] = useState<StylePreset[]>([]);
+  const [recovery, setRecovery] = useState<Autosave | null>(null);
+  // Autosaving waits until any earlier session has been restored or discarded, so it is not overwritten.
+  const [isAutosaveReady, setIsAutosaveReady] = useState<boolean>(false);
 
   useEffect(() => {
     const loadInitialImage = async () => {
@@ -32,10 +122,11 @@ const App: React.FC = () => {
         const reader = new FileReader();
         reader.onloadend = () => {
           const dataUrl = reader.result as string;
-          setOriginalImage({
+          // A session restored while the sample was loading takes precedence.
+          setChain((prev) => prev ?? createChain({
             dataUrl: dataUrl,
             mimeType: blob.type,
-          });
+          }));
         };
         reader.readAsDataURL(blob);
       } catch (e) {
@@ -49,59 +140,448 @@ const App: React.FC = () => {
     loadInitialImage();
   }, []);
 
+  useEffect(() => {
+    listHistory()
+      .then(setHistory)
+      .catch((e) => console.error("Failed to load history:", e));
+    listPresets()
+      .then(setUserPresets)
+      .catch((e) => console.error("Failed to load presets:", e));
+    loadAutosave()
+      .then((saved) => (saved ? setRecovery(saved) : setIsAutosaveReady(true)))
+      .catch((e) => {
+        console.error("Failed to load autosave:", e);
+        setIsAutosaveReady(true);
+      });
+  }, []);
+
+
+  useEffect(() => saveUserTemplates(userTemplates), [userTemplates]);
+  useEffect(() => saveTemplateSelection(templateSelection), [templateSelection]);
+  useEffect(() => saveGenerationSettings(generationSettings), [generationSettings]);
+
+  const templateSet = useMemo(() => resolveTemplates(templateSelection, userTemplates), [templateSelection, userTemplates]);
+
+  const handleSelectTemplate = (section: PromptSection, templateId: string) => {
+    setTemplateSelection((prev) => ({ ...prev, [section]: templateId }));
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    setUserTemplates((prev) => [...prev.filter((t) => t.id !== template.id), template]);
+  };
+
+  const handleDeleteTemplate = (templateId: string) => {
+    setUserTemplates((prev) => prev.filter((t) => t.id !== templateId));
+  };
+
+  const updateVariant = (index: number, slot: VariantSlot) => {
+    setVariants((prev) => prev.map((existing, i) => (i === index ? slot : existing)));
+  };
+
+  /**
+   * Starts a new generation session and aborts the previous one. Results are
+   * only applied while their session is current, so a late response can never
+   * land on inputs that changed after it was requested.
+   */
+  const startSession = () => {
+    sessionRef.current.controller.abort();
+    sessionRef.current = { id: sessionRef.current.id + 1, controller: new AbortController() };
+    return sessionRef.current;
+  };
+
+  const cancelGeneration = () => {
+    startSession();
+    setIsLoading(false);
+    setVariants((prev) => prev.map((slot) => (slot.status === 'pending' ? { status: 'failed', error: 'Cancelled.' } : slot)));
+  };
+
+  const handleDeleteHistoryEntry = (id: string) => {
+    setHistory((prev) => prev.filter((entry) => entry.id !== id));
+    deleteHistoryEntry(id).catch((e) => console.error("Failed to delete history entry:", e));
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    clearHistory().catch((e) => console.error("Failed to clear history:", e));
+  };
+
+  /** Loads a request's inputs back into the editor controls. */
+  const applyEditRequest = (request: EditRequest) => {
+    // Keep the current session when the request starts from the image already being edited.
+    if (originalImage?.dataUrl !== request.person.dataUrl) {
+      cancelGeneration();
+      setChain(createChain(request.person));
+    }
+    setPrompt(request.pose?.text ?? '');
+    setPoseImage(request.pose?.image ?? null);
+    setClothingImage(request.clothing?.image ?? null);
+    setClothingPrompt(request.clothing?.text ?? '');
+    setOutfit(request.outfit ?? {});
+    setBackgroundImage(request.background?.image ?? null);
+    setBackgroundPrompt(request.background?.text ?? '');
+    setPreserveBodyShape(request.preserve.bodyShape);
+    setMask(request.mask ?? null);
+    setIsMasking(!!request.mask);
+    setSubjects(request.subjects ?? []);
+    setIsSelectingSubjects(false);
+  };
+
+  const updateSubject = (id: string, changes: Partial<Subject>) => {
+    setSubjects((prev) => prev.map((subject) => (subject.id === id ? { ...subject, ...changes } : subject)));
+  };
+
+  const handleApplyPreset = (preset: StylePreset) => {
+    setPrompt(preset.pose ?? '');
+    setClothingImage(preset.clothing?.image ?? null);
+    setClothingPrompt(preset.clothing?.text ?? '');
+    setOutfit(preset.outfit ?? {});
+    setBackgroundImage(preset.background?.image ?? null);
+    setBackgroundPrompt(preset.background?.text ?? '');
+    setPreserveBodyShape(preset.preserveBodyShape);
+    setError(null);
+  };
+
+  const handleSavePreset = async (name: string, tags: string[]) => {
+    const thumbnailSource = clothingImage ?? filledGarments(outfit).find(([, section]) => section.image)?.[1].image ?? backgroundImage;
+    const preset: StylePreset = {
+      id: `preset-${crypto.randomUUID()}`,
+      name,
+      tags,
+      pose: prompt.trim() || undefined,
+      clothing: clothingImage || clothingPrompt.trim() ? { image: clothingImage ?? undefined, text: clothingPrompt.trim() || undefined } : undefined,
+      outfit: filledGarments(outfit).length > 0 ? outfit : undefined,
+      background: backgroundImage || backgroundPrompt.trim() ? { image: backgroundImage ?? undefined, text: backgroundPrompt.trim() || undefined } : undefined,
+      preserveBodyShape,
+      thumbnail: thumbnailSource ? await makeThumbnail(thumbnailSource) : swatchThumbnail('#374151', '#0891b2'),
+      createdAt: Date.now(),
+    };
+    await savePreset(preset);
+    setUserPresets((prev) => [...prev, preset]);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setUserPresets((prev) => prev.filter((preset) => preset.id !== id));
+    deletePreset(id).catch((e) => console.error("Failed to delete preset:", e));
+  };
+
+  /** Adds imported presets, replacing any with the same id so re-importing an updated file updates them. */
+  const handleImportPresets = (imported: StylePreset[]) => {
+    const ids = new Set(imported.map((preset) => preset.id));
+    setUserPresets((prev) => [...prev.filter((preset) => !ids.has(preset.id)), ...imported]);
+    imported.forEach((preset) => savePreset(preset).catch((e) => console.error("Failed to save preset:", e)));
+  };
+
+  /** The session as saved to the autosave and project files; the history is added when saving a file. */
+  const projectState = useMemo<ProjectState | null>(() => {
+    if (!chain) return null;
+    const saved = finishedVariants(variants);
+    // Position of the selected result once unfinished slots are left out.
+    const selected = finishedVariants(variants.slice(0, selectedVariant)).length;
+    return {
+      chain,
+      pose: { text: prompt, image: poseImage ?? undefined, source: poseSource, keypoints: poseKeypoints },
+      clothing: { text: clothingPrompt, image: clothingImage ?? undefined },
+      outfit,
+      background: { text: backgroundPrompt, image: backgroundImage ?? undefined },
+      preserveBodyShape,
+      mask: mask ?? undefined,
+      subjects,
+      maxImageDimension,
+      variantCount,
+      variants: saved,
+      selectedVariant: selected < saved.length ? selected : 0,
+    };
+  }, [chain, variants, selectedVariant, prompt, poseImage, poseSource, poseKeypoints, clothingPrompt, clothingImage, outfit, backgroundPrompt, backgroundImage, preserveBodyShape, mask, subjects, maxImageDimension, variantCount]);
+
+  useEffect(() => {
+    if (!isAutosaveReady || !projectState) return;
+    const timer = setTimeout(() => {
+      saveAutosave(projectState).catch((e) => console.error("Failed to autosave:", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isAutosaveReady, projectState]);
+
+  /** Replaces the whole editor state with a saved project. */
+  const applyProjectState = (project: ProjectState) => {
+    cancelGeneration();
+    setChain(project.chain);
+    setPrompt(project.pose.text);
+    setPoseImage(project.pose.image ?? null);
+    setPoseSource(project.pose.source);
+    setPoseKeypoints(project.pose.keypoints);
+    setClothingImage(project.clothing.image ?? null);
+    setClothingPrompt(project.clothing.text ?? '');
+    setOutfit(project.outfit);
+    setBackgroundImage(project.background.image ?? null);
+    setBackgroundPrompt(project.background.text ?? '');
+    setPreserveBodyShape(project.preserveBodyShape);
+    setMask(project.mask ?? null);
+    setIsMasking(!!project.mask);
+    setSubjects(project.subjects);
+    setIsSelectingSubjects(false);
+    setMaxImageDimension(project.maxImageDimension);
+    setVariantCount(project.variantCount);
+    setVariants(project.variants);
+    setSelectedVariant(project.selectedVariant);
+    setPendingUpload(null);
+    setError(null);
+  };
+
+  const handleOpenProject = (project: ProjectState) => {
+    applyProjectState(project);
+    // The project's history joins the local one; entries already here are kept as they are.
+    const known = new Set(history.map((entry) => entry.id));
+    const added = (project.history ?? []).filter((entry) => !known.has(entry.id));
+    if (added.length > 0) {
+      setHistory((prev) => [...prev, ...added].sort((a, b) => b.createdAt - a.createdAt));
+      added.forEach((entry) => addHistoryEntry(entry).catch((e) => console.error("Failed to save history entry:", e)));
+    }
+    setRecovery(null);
+    setIsAutosaveReady(true);
+  };
+
+  const handleRestoreAutosave = (saved: Autosave) => {
+    try {
+      applyProjectState(parseProjectState(saved.state));
+    } catch (e) {
+      console.error("Failed to restore autosave:", e);
+      setError("The autosaved session could not be restored.");
+    }
+    setRecovery(null);
+    setIsAutosaveReady(true);
+  };
+
+  const handleDiscardAutosave = () => {
+    setRecovery(null);
+    setIsAutosaveReady(true);
+    clearAutosave().catch((e) => console.error("Failed to clear autosave:", e));
+  };
+
+  const handleRestoreHistoryEntry = (entry: HistoryEntry) => {
+    applyEditRequest(entry.request);
+    setVariants([{
+      status: 'done',
+      image: entry.output,
+      request: entry.request,
+      settings: entry.settings,
+      provider: entry.provider,
+      prompt: entry.prompt,
+    }]);
+    setSelectedVariant(0);
+    setError(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   const handleImageUpload = (imageFile: ImageFile) => {
-    setOriginalImage(imageFile);
-    setGeneratedImage(null);
+    cancelGeneration();
+    setChain(createChain(imageFile));
+    setVariants([]);
+    setMask(null);
+    setSubjects([]);
     setError(null);
   };
 
+  const moveInChain = (move: (chain: EditChain) => EditChain) => {
+    cancelGeneration();
+    setChain((prev) => (prev ? move(prev) : prev));
+    setVariants([]);
+    // A mask and selected people only fit the image they were made on.
+    setMask(null);
+    setSubjects([]);
+    setError(null);
+  };
+
+  /** Applies the current step 2 settings to a person image. */
+  const buildEditRequest = useCallback((person: ImageFile): EditRequest => ({
+    person,
+    pose: { image: poseImage ?? undefined, text: prompt },
+    clothing: { image: clothingImage ?? undefined, text: clothingPrompt },
+    outfit,
+    background: { image: backgroundImage ?? undefined, text: backgroundPrompt },
+    mask: mask ?? undefined,
+    subjects: subjects.length > 0 ? subjects : undefined,
+    preserve: { identity: true, bodyShape: preserveBodyShape },
+  }), [mask, subjects, outfit, poseImage, backgroundImage, clothingImage, prompt, backgroundPrompt, clothingPrompt, preserveBodyShape]);
+
+  const editRequest = useMemo<EditRequest | null>(
+    () => (originalImage ? buildEditRequest(originalImage) : null),
+    [originalImage, buildEditRequest]
+  );
+
+  const buildBatchRequest = useCallback((person: ImageFile): EditRequest | null => {
+    // The mask and selected people belong to the single input image, so they do not carry over to batch items.
+    const { mask: _mask, subjects: _subjects, ...request } = buildEditRequest(person);
+    return hasRequestedChanges(request) ? request : null;
+  }, [buildEditRequest]);
+
+  /**
+   * Builds one keyframe of a pose sequence. Every frame starts from the
+   * original upload rather than the previous frame, so the identity cannot drift.
+   */
+  const buildSequenceRequest = useCallback((frame: SequenceFrame): EditRequest | null => {
+    if (!chain) return null;
+    const { mask: _mask, subjects: _subjects, ...request } = buildEditRequest(chain.nodes[chain.rootId].image);
+    return {
+      ...request,
+      pose: { text: frame.text, image: frame.keypoints ? renderSkeletonImage(frame.keypoints) : undefined },
+    };
+  }, [chain, buildEditRequest]);
+
+  /** Runs one generation and records the result in the history. */
+  const generateAndRecord = useCallback(async (request: EditRequest, options: ChangePoseOptions = {}): Promise<HistoryEntry> => {
+    const image = await changePose(request, templateSet, { timeoutMs, settings: generationSettings, ...options });
+    // Record the prompt as sent; translations are cached, so this does not translate again.
+    const sent = generationSettings.translatePrompts ? await translateRequest(request) : request;
+    const entry: HistoryEntry = {
+      id: crypto.randomUUID(),
+      createdAt: Date.now(),
+      request,
+      prompt: buildPrompt(sent, templateSet),
+      output: image,
+      settings: normalizeGenerationSettings(generationSettings),
+      provider: getImageProvider().id,
+    };
+    setHistory((prev) => [entry, ...prev]);
+    addHistoryEntry(entry).catch((e) => console.error("Failed to save history entry:", e));
+    return entry;
+  }, [templateSet, timeoutMs, generationSettings]);
+
+  /** Scores a result against its input; a failed check (e.g. models not loading) leaves it unscored. */
+  const checkResult = async (request: EditRequest, image: string): Promise<PreservationScores | undefined> => {
+    try {
+      return await scorePreservation(request.person.dataUrl, image);
+    } catch (e) {
+      console.error("Failed to check preservation:", e);
+      return undefined;
+    }
+  };
+
+  /**
+   * Generates one slot of the result grid within the given session. With
+   * automatic retry on, a result that fails the preservation check is
+   * regenerated a limited number of times and the best-scoring attempt is kept.
+   */
+  const runVariant = useCallback(async (index: number, request: EditRequest, session: GenerationSession): Promise<string> => {
+    const isCurrent = () => sessionRef.current.id === session.id;
+    const settings = normalizeGenerationSettings(generationSettings);
+    const provider = getImageProvider().id;
+    let best: { image: string; prompt: string; scores?: PreservationScores; rank: number } | null = null;
+    try {
+      for (let attempt = 0; attempt <= MAX_PRESERVATION_RETRIES; attempt++) {
+        const { output: image, prompt } = await generateAndRecord(request, {
+          signal: session.controller.signal,
+          onStage: (stage) => {
+            if (isCurrent()) updateVariant(index, { status: 'pending', stage });
+          },
+        });
+        // Later attempts only replace the shown result if they score better.
+        if (isCurrent() && !best) updateVariant(index, { status: 'done', image, request, settings, provider, prompt });
+        if (!checkPreservation) return image;
+
+        const scores = await checkResult(request, image);
+        const rank = scores ? lowestScore(scores, request.preserve.bodyShape) ?? 1 : 1;
+        if (!best || rank > best.rank) best = { image, prompt, scores, rank };
+        if (isCurrent()) updateVariant(index, { status: 'done', image: best.image, request, scores: best.scores, settings, provider, prompt: best.prompt });
+        const shouldRetry = autoRetryPreservation && !!scores
+          && isPreservationViolated(scores, preservationThreshold, request.preserve.bodyShape);
+        if (!shouldRetry || !isCurrent()) break;
+      }
+      return best!.image;
+    } catch (e) {
+      const error = classifyError(e);
+      // A failed retry still leaves the earlier result to show.
+      if (best && error.kind !== 'cancelled') {
+        if (isCurrent()) updateVariant(index, { status: 'done', image: best.image, request, scores: best.scores, settings, provider, prompt: best.prompt });
+        return best.image;
+      }
+      if (isCurrent()) updateVariant(index, { status: 'failed', error: error.message, request });
+      throw error;
+    }
+  }, [generateAndRecord, generationSettings, checkPreservation, autoRetryPreservation, preservationThreshold]);
+
+  /** Fills the result grid for a request; the last request is kept for Retry. */
+  const runGeneration = useCallback(async (request: EditRequest, count: number) => {
+    const session = startSession();
+    lastGenerationRef.current = { request, count };
+    setIsLoading(true);
+    setError(null);
+    setGenerationError(null);
+    setVariants(Array.from({ length: count }, () => ({ status: 'pending', stage: 'preparing' })));
+    setSelectedVariant(0);
+
+    const tasks = Array.from({ length: count }, (_, index) => () => runVariant(index, request, session));
+    const results = await runWithConcurrency(tasks, MAX_CONCURRENT_REQUESTS);
+    if (sessionRef.current.id !== session.id) return;
+
+    const firstSuccess = results.findIndex((result) => result.status === 'fulfilled');
+    if (firstSuccess === -1) {
+      const failure = classifyError((results[0] as PromiseRejectedResult).reason);
+      if (failure.kind !== 'cancelled') setGenerationError(failure);
+    } else {
+      setSelectedVariant(firstSuccess);
+    }
+    setIsLoading(false);
+  }, [runVariant]);
+
   const handleGeneratePose = useCallback(async () => {
-    if (!originalImage || (!prompt.trim() && !clothingPrompt.trim() && !backgroundPrompt.trim() && !backgroundImage && !clothingImage)) {
+    if (!editRequest) {
       setError("Please describe what you want to change (pose, clothing, or background).");
       return;
     }
+    const validationErrors = [...validateEditRequest(editRequest), ...validateGenerationSettings(generationSettings)];
+    if (validationErrors.length > 0) {
+      setError(validationErrors.join(' '));
+      return;
+    }
+    await runGeneration(editRequest, variantCount);
+  }, [editRequest, generationSettings, variantCount, runGeneration]);
 
-    setIsLoading(true);
-    setError(null);
-    setGeneratedImage(null);
+  const handleRetryGeneration = () => {
+    const last = lastGenerationRef.current;
+    setGenerationError(null);
+    if (last) runGeneration(last.request, last.count);
+  };
 
+  const handleRegenerateVariant = async (index: number) => {
+    // Repeat the edit this slot was made with, even if the inputs have changed since.
+    const request = variants[index]?.request ?? editRequest;
+    if (!request) return;
+    updateVariant(index, { status: 'pending', stage: 'preparing', request });
     try {
-      // Strips the "data:image/jpeg;base64," part
-      const base64Data = originalImage.dataUrl.split(',')[1];
-      if (!base64Data) {
-        throw new Error("Invalid image data URL.");
-      }
-
-      const newImageBase64 = await changePose(
-        base64Data,
-        originalImage.mimeType,
-        backgroundImage ? backgroundImage.dataUrl.split(',')[1] : null,
-        backgroundImage ? backgroundImage.mimeType : null,
-        clothingImage ? clothingImage.dataUrl.split(',')[1] : null,
-        clothingImage ? clothingImage.mimeType : null,
-        prompt,
-        backgroundPrompt,
-        clothingPrompt,
-        preserveBodyShape
-        );
-      setGeneratedImage(newImageBase64);
-    } catch (e) {
-      console.error(e);
-      const errorMessage = e instanceof Error ? e.message : "An unknown error occurred.";
-      setError(`Failed to generate new pose. ${errorMessage}`);
-    } finally {
-      setIsLoading(false);
+      await runVariant(index, request, sessionRef.current);
+    } catch {
+      // The failure is shown in the slot itself.
     }
-  }, [originalImage, backgroundImage, clothingImage, prompt, backgroundPrompt, clothingPrompt, preserveBodyShape]);
+  };
 
-  const isGenerationDisabled = isLoading || !originalImage || (!prompt.trim() && !clothingPrompt.trim() && !backgroundPrompt.trim() && !backgroundImage && !clothingImage);
+  /** Continues editing from a result by making it the next step of the edit chain. */
+  const handlePromoteVariant = (index: number) => {
+    const { image, request } = variants[index] ?? {};
+    if (!image) return;
+    moveInChain((prev) => appendStep(prev, imageFileFromDataUrl(image), request));
+  };
+
+  const hasPendingVariants = variants.some((slot) => slot.status === 'pending');
+  const isGenerationDisabled = isLoading || !editRequest || !hasRequestedChanges(editRequest);
+  const finalPrompt = editRequest ? buildPrompt(editRequest, templateSet) : '';
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+  const comparedSlot = variants[selectedVariant]?.status === 'done' ? variants[selectedVariant] : undefined;
+  // Compare against the image the result was generated from, which may no longer be the current step.
+  const comparedOriginal = comparedSlot?.request?.person.dataUrl ?? originalImage?.dataUrl;
+  const hasPresetSettings = !!(prompt.trim() || clothingImage || clothingPrompt.trim() || filledGarments(outfit).length > 0 || backgroundImage || backgroundPrompt.trim());
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
       <Header />
       <main className="container mx-auto p-4 md:p-8">
         <div className="max-w-5xl mx-auto">
+          <ProjectControls
+            getProject={() => (projectState ? { ...projectState, history } : null)}
+            onOpen={handleOpenProject}
+            recovery={recovery}
+            onRestore={handleRestoreAutosave}
+            onDiscardRecovery={handleDiscardAutosave}
+          />
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
             <div className="flex flex-col gap-8">
                {/* Section 1 */}
@@ -111,18 +591,71 @@ const App: React.FC = () => {
                     <div className="aspect-square bg-gray-800 rounded-lg flex items-center justify-center">
                         <Loader />
                     </div>
+                  ) : isMasking && originalImage ? (
+                    <MaskEditor image={originalImage} mask={mask} onChange={setMask} />
+                  ) : isSelectingSubjects && originalImage ? (
+                    <SubjectSelector image={originalImage} subjects={subjects} onChange={setSubjects} />
                   ) : (
                     <ImageUploader 
-                      onImageUpload={handleImageUpload}
+                      onImageUpload={setPendingUpload}
                       imageSrc={originalImage?.dataUrl} 
+                      maxDimension={FULL_SIZE_UPLOAD_DIMENSION}
+                      overlay={originalImage && <SubjectOverlay subjects={subjects} imageSrc={originalImage.dataUrl} />}
                     />
                   )}
+                  {originalImage && (
+                    <div className="flex flex-wrap gap-x-6 gap-y-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setIsMasking((prev) => !prev);
+                          setIsSelectingSubjects(false);
+                        }}
+                        className="text-sm text-cyan-400 hover:text-cyan-300"
+                      >
+                        {isMasking ? 'Done editing region' : mask ? 'Edit masked region' : 'Limit changes to a painted region'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setIsSelectingSubjects((prev) => !prev);
+                          setIsMasking(false);
+                        }}
+                        className="text-sm text-cyan-400 hover:text-cyan-300"
+                      >
+                        {isSelectingSubjects ? 'Done selecting people' : subjects.length > 0 ? `Edit selected people (${subjects.length})` : 'Select people in a group photo'}
+                      </button>
+                    </div>
+                  )}
                </div>
+               {chain && (
+                 <EditChainPanel
+                   chain={chain}
+                   onUndo={() => moveInChain(undo)}
+                   onRedo={() => moveInChain(redo)}
+                   onSelect={(id) => moveInChain((prev) => goTo(prev, id))}
+                   disabled={isLoading}
+                 />
+               )}
             </div>
 
             <div className="flex flex-col gap-6">
               <h2 className="text-2xl font-bold text-cyan-400">2. Customize Your Image</h2>
-              
+
+              <details className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+                <summary className="text-lg font-semibold text-gray-200 cursor-pointer">Style Presets</summary>
+                <div className="mt-4">
+                  <PresetLibrary
+                    presets={presets}
+                    onApply={handleApplyPreset}
+                    onSave={handleSavePreset}
+                    onDelete={handleDeletePreset}
+                    onImport={handleImportPresets}
+                    canSave={hasPresetSettings}
+                  />
+                </div>
+              </details>
+
               <div>
                 <label htmlFor="pose-prompt" className="block text-sm font-medium text-gray-300 mb-2">Describe New Pose (Optional)</label>
                 <textarea
@@ -132,11 +665,100 @@ const App: React.FC = () => {
                     placeholder="e.g., superhero landing pose, confident stance"
                     className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-200 resize-none h-24"
                     rows={3}
+                    maxLength={MAX_USER_TEXT_LENGTH}
                     disabled={!originalImage}
                     aria-label="Describe New Pose"
                 />
+                <TextFieldStatus text={prompt} />
               </div>
 
+              {subjects.length > 0 && (
+                <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col gap-4">
+                  <h3 className="text-lg font-semibold text-gray-200">Selected People</h3>
+                  <p className="text-xs text-gray-500">The settings below apply to everyone selected. Add instructions for one person here.</p>
+                  {subjects.map((subject) => (
+                    <div key={subject.id} className="flex flex-col gap-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={subject.label}
+                          onChange={(e) => updateSubject(subject.id, { label: e.target.value })}
+                          maxLength={MAX_USER_TEXT_LENGTH}
+                          className="flex-1 p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm font-semibold focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                          aria-label="Person name"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setSubjects((prev) => prev.filter((s) => s.id !== subject.id))}
+                          className="text-xs text-gray-500 hover:text-red-400"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                      <TextFieldStatus text={subject.label} compact />
+                      <input
+                        type="text"
+                        value={subject.pose ?? ''}
+                        onChange={(e) => updateSubject(subject.id, { pose: e.target.value })}
+                        placeholder="Pose for this person, e.g. waving"
+                        maxLength={MAX_USER_TEXT_LENGTH}
+                        className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                      />
+                      <TextFieldStatus text={subject.pose ?? ''} compact />
+                      <input
+                        type="text"
+                        value={subject.clothing ?? ''}
+                        onChange={(e) => updateSubject(subject.id, { clothing: e.target.value })}
+                        placeholder="Outfit for this person, e.g. a red dress"
+                        maxLength={MAX_USER_TEXT_LENGTH}
+                        className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                      />
+                      <TextFieldStatus text={subject.clothing ?? ''} compact />
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col gap-4">
+                    <h3 className="text-lg font-semibold text-gray-200">Pose Reference (Optional)</h3>
+                    {poseImage ? (
+                        <div className="relative bg-gray-800 rounded-lg p-2 shadow-lg w-full">
+                            <img
+                                src={poseImage.dataUrl}
+                                alt="Pose Reference"
+                                className="w-full h-auto object-contain rounded-md aspect-square"
+                            />
+                            <button
+                                onClick={() => setPoseImage(null)}
+                                className="absolute top-3 right-3 z-10 bg-slate-900/70 text-white rounded-full p-1.5 leading-none hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-red-500 transition-colors"
+                                aria-label="Remove pose reference"
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>
+                            </button>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex gap-2">
+                                {(['photo', 'skeleton'] as const).map((source) => (
+                                    <button
+                                        key={source}
+                                        type="button"
+                                        onClick={() => setPoseSource(source)}
+                                        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${poseSource === source ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                    >
+                                        {source === 'photo' ? 'Reference photo' : 'Stick figure'}
+                                    </button>
+                                ))}
+                            </div>
+                            {poseSource === 'photo' ? (
+                                <ImageUploader onImageUpload={setPoseImage} maxDimension={maxImageDimension} />
+                            ) : (
+                                <PoseEditor keypoints={poseKeypoints} onChange={setPoseKeypoints} onUse={setPoseImage} />
+                            )}
+                        </>
+                    )}
+                </div>
+
               <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col gap-4">
                     <h3 className="text-lg font-semibold text-gray-200">Clothing & Style Options</h3>
                     <div>
@@ -157,13 +779,13 @@ const App: React.FC = () => {
                                 </button>
                             </div>
                         ) : (
-                            <ImageUploader onImageUpload={setClothingImage} />
+                            <ImageUploader onImageUpload={setClothingImage} maxDimension={maxImageDimension} />
                         )}
                     </div>
                     
                     <div className="flex items-center text-gray-500">
                         <hr className="flex-grow border-gray-600" />
-                        <span className="px-2 text-sm">OR</span>
+                        <span className="px-2 text-sm">AND / OR</span>
                         <hr className="flex-grow border-gray-600" />
                     </div>
 
@@ -176,10 +798,19 @@ const App: React.FC = () => {
                             placeholder="e.g., a formal black suit, a red summer dress"
                             className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-200 resize-none h-24 disabled:bg-gray-800/50 disabled:cursor-not-allowed"
                             rows={3}
-                            disabled={!originalImage || !!clothingImage}
+                            maxLength={MAX_USER_TEXT_LENGTH}
+                            disabled={!originalImage}
                             aria-label="Describe Clothing & Style (Optional)"
                         />
+                        <TextFieldStatus text={clothingPrompt} />
                     </div>
+
+                    <details>
+                        <summary className="text-sm font-medium text-gray-300 cursor-pointer">Outfit builder: set each garment separately</summary>
+                        <div className="mt-4">
+                            <OutfitBuilder outfit={outfit} onChange={setOutfit} maxDimension={maxImageDimension} disabled={!originalImage} />
+                        </div>
+                    </details>
                 </div>
 
 
@@ -203,7 +834,7 @@ const App: React.FC = () => {
                                 </button>
                             </div>
                         ) : (
-                            <ImageUploader onImageUpload={setBackgroundImage} />
+                            <ImageUploader onImageUpload={setBackgroundImage} maxDimension={maxImageDimension} />
                         )}
                     </div>
                     
@@ -222,9 +853,11 @@ const App: React.FC = () => {
                             placeholder="e.g., a futuristic city, a sunny beach"
                             className="w-full p-3 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-200 resize-none h-24 disabled:bg-gray-800/50 disabled:cursor-not-allowed"
                             rows={3}
+                            maxLength={MAX_USER_TEXT_LENGTH}
                             disabled={!originalImage || !!backgroundImage}
                             aria-label="Describe New Background (Optional)"
                         />
+                        <TextFieldStatus text={backgroundPrompt} />
                     </div>
                 </div>
 
@@ -243,14 +876,137 @@ const App: React.FC = () => {
                 </label>
               </div>
 
-              <button
-                onClick={handleGeneratePose}
-                disabled={isGenerationDisabled}
-                className="w-full bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-cyan-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2"
-              >
-                {isLoading && <Loader small={true} />}
-                {isLoading ? 'Generating...' : 'Generate'}
-              </button>
+              <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col gap-3">
+                <div className="flex items-center">
+                  <input
+                    id="check-preservation"
+                    type="checkbox"
+                    checked={checkPreservation}
+                    onChange={(e) => setCheckPreservation(e.target.checked)}
+                    className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+                  />
+                  <label htmlFor="check-preservation" className="ml-2 block text-sm text-gray-300">
+                    Check identity and body shape on results
+                  </label>
+                </div>
+                {checkPreservation && (
+                  <>
+                    <p className="text-xs text-gray-500">
+                      Compares face and body proportions with the original in your browser. The first check downloads the detection models.
+                    </p>
+                    <div className="flex items-center justify-between gap-2">
+                      <label htmlFor="preservation-threshold" className="text-sm text-gray-300">Warn below</label>
+                      <select
+                        id="preservation-threshold"
+                        value={preservationThreshold}
+                        onChange={(e) => setPreservationThreshold(Number(e.target.value))}
+                        className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                      >
+                        {PRESERVATION_THRESHOLD_OPTIONS.map((threshold) => (
+                          <option key={threshold} value={threshold}>{Math.round(threshold * 100)}%</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex items-center">
+                      <input
+                        id="auto-retry-preservation"
+                        type="checkbox"
+                        checked={autoRetryPreservation}
+                        onChange={(e) => setAutoRetryPreservation(e.target.checked)}
+                        disabled={isLoading}
+                        className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+                      />
+                      <label htmlFor="auto-retry-preservation" className="ml-2 block text-sm text-gray-300">
+                        Retry automatically below the threshold (up to {MAX_PRESERVATION_RETRIES} times)
+                      </label>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label htmlFor="variant-count" className="text-sm text-gray-300">Variants</label>
+                <select
+                  id="variant-count"
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
+                  disabled={!originalImage || isLoading}
+                  className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                >
+                  {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+
+              <details className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+                <summary className="text-lg font-semibold text-gray-200 cursor-pointer">Model &amp; Generation Settings</summary>
+                <div className="mt-4">
+                  <GenerationSettingsPanel settings={generationSettings} onChange={setGenerationSettings} disabled={isLoading} />
+                </div>
+              </details>
+
+              <details className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+                <summary className="text-lg font-semibold text-gray-200 cursor-pointer">Prompt Templates</summary>
+                <div className="mt-4">
+                  <PromptTemplateEditor
+                    userTemplates={userTemplates}
+                    selection={templateSelection}
+                    onSelect={handleSelectTemplate}
+                    onSave={handleSaveTemplate}
+                    onDelete={handleDeleteTemplate}
+                  />
+                </div>
+              </details>
+
+              <div>
+                <button
+                  type="button"
+                  onClick={() => setShowPrompt((prev) => !prev)}
+                  disabled={!originalImage}
+                  className="text-sm text-cyan-400 hover:text-cyan-300 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                  {showPrompt ? 'Hide final prompt' : 'Show final prompt'}
+                </button>
+                {showPrompt && finalPrompt && (
+                  <pre className="mt-2 p-3 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 whitespace-pre-wrap break-words">{finalPrompt}</pre>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <label htmlFor="timeout" className="text-sm text-gray-300">Time limit</label>
+                <select
+                  id="timeout"
+                  value={timeoutMs}
+                  onChange={(e) => setTimeoutMs(Number(e.target.value))}
+                  disabled={isLoading}
+                  className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                >
+                  {TIMEOUT_OPTIONS_MS.map((ms) => (
+                    <option key={ms} value={ms}>{ms / 1000} seconds</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleGeneratePose}
+                  disabled={isGenerationDisabled}
+                  className="flex-1 bg-cyan-600 text-white font-bold py-3 px-4 rounded-lg hover:bg-cyan-500 transition-all duration-300 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isLoading && <Loader small={true} />}
+                  {isLoading ? 'Generating...' : 'Generate'}
+                </button>
+                {hasPendingVariants && (
+                  <button
+                    type="button"
+                    onClick={cancelGeneration}
+                    className="bg-gray-700 text-gray-200 font-bold py-3 px-4 rounded-lg hover:bg-red-600 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
 
               {error && (
                 <div className="p-3 bg-red-900/30 border border-red-500/50 rounded-lg text-center">
@@ -262,24 +1018,101 @@ const App: React.FC = () => {
 
           <div className="mt-12">
             <h2 className="text-2xl font-bold text-cyan-400 mb-4 text-center">3. AI Generated Result</h2>
-            <div className="w-full md:w-1/2 mx-auto">
-                 {isLoading && !generatedImage && (
-                     <div className="aspect-square bg-gray-800 rounded-lg flex flex-col items-center justify-center text-center p-4">
-                        <Loader />
-                        <p className="mt-4 text-gray-400">The AI is striking a new pose...</p>
-                        <p className="text-sm text-gray-500">This may take a moment.</p>
-                     </div>
-                 )}
-                {generatedImage && <ImageDisplay title="Generated Pose" src={generatedImage} />}
-                {!generatedImage && !isLoading && !error && (
+            <div className={`w-full mx-auto ${variants.length > 1 ? '' : 'md:w-1/2'}`}>
+                {variants.length > 0 ? (
+                    <VariantGrid
+                      slots={variants}
+                      selectedIndex={selectedVariant}
+                      onSelect={setSelectedVariant}
+                      onRegenerate={handleRegenerateVariant}
+                      onPromote={handlePromoteVariant}
+                      disabled={isLoading}
+                      preservationThreshold={preservationThreshold}
+                    />
+                ) : !error && (
                     <div className="aspect-square bg-gray-800 border-2 border-dashed border-gray-700 rounded-lg flex items-center justify-center text-gray-500">
                         <p>Your new image will appear here</p>
                     </div>
                 )}
             </div>
+            {comparedSlot?.image && comparedOriginal && (
+              <div className="mt-4 flex flex-col items-center gap-4">
+                <button
+                  type="button"
+                  onClick={() => setShowCompare((prev) => !prev)}
+                  className="text-sm text-cyan-400 hover:text-cyan-300"
+                >
+                  {showCompare ? 'Hide comparison' : 'Compare with original'}
+                </button>
+                {showCompare && (
+                  <div className="w-full md:w-3/4">
+                    <CompareViewer before={comparedOriginal} after={comparedSlot.image} />
+                  </div>
+                )}
+                <details className="w-full md:w-1/2 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+                  <summary className="text-lg font-semibold text-gray-200 cursor-pointer">Export</summary>
+                  <div className="mt-4">
+                    <ExportPanel
+                      image={comparedSlot.image}
+                      request={comparedSlot.request}
+                      prompt={comparedSlot.prompt ?? finalPrompt}
+                      index={selectedVariant}
+                      settings={comparedSlot.settings}
+                      provider={comparedSlot.provider}
+                    />
+                  </div>
+                </details>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-cyan-400 mb-4 text-center">4. Batch Processing</h2>
+            <BatchPanel buildRequest={buildBatchRequest} onGenerate={generateAndRecord} maxDimension={maxImageDimension} />
+          </div>
+
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-cyan-400 mb-4 text-center">5. Pose Sequence</h2>
+            <SequencePanel
+              buildRequest={buildSequenceRequest}
+              onGenerate={generateAndRecord}
+              sourceImage={chain?.nodes[chain.rootId].image.dataUrl}
+              currentKeypoints={poseKeypoints}
+              disabled={!chain}
+            />
+          </div>
+
+          <div className="mt-12">
+            <h2 className="text-2xl font-bold text-cyan-400 mb-4 text-center">6. History</h2>
+            <HistoryGallery
+              entries={history}
+              onRestore={handleRestoreHistoryEntry}
+              onDelete={handleDeleteHistoryEntry}
+              onClear={handleClearHistory}
+            />
           </div>
         </div>
       </main>
+      <ErrorModal
+        isOpen={!!generationError}
+        title={generationError ? ERROR_GUIDANCE[generationError.kind].title : undefined}
+        message={generationError?.message ?? null}
+        guidance={generationError ? ERROR_GUIDANCE[generationError.kind].guidance : undefined}
+        onRetry={handleRetryGeneration}
+        onClose={() => setGenerationError(null)}
+      />
+      {pendingUpload && (
+        <ImageCropper
+          image={pendingUpload}
+          maxDimension={maxImageDimension}
+          onMaxDimensionChange={setMaxImageDimension}
+          onApply={(image) => {
+            setPendingUpload(null);
+            handleImageUpload(image);
+          }}
+          onCancel={() => setPendingUpload(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import { readdir } from 'node:fs/promises';
+import path from 'node:path';
+
+const hasMagic = (segment: string) => /[*?[]/.test(segment);
+
+/** Converts one path segment pattern (`*`, `?`, `[abc]`) to a regular expression. */
+function segmentToRegExp(segment: string): RegExp {
+    let source = '';
+    for (let i = 0; i < segment.length; i++) {
+        const char = segment[i];
+        if (char === '*') source += '[^/]*';
+        else if (char === '?') source += '[^/]';
+        else if (char === '[') {
+            const end = segment.indexOf(']', i);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${segment.slice(i + 1, end).replace(/^!/, '^')}]`;
+                i = end;
+            }
+        } else source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands a glob pattern with `*`, `?`, `[...]` and `**` into matching file
+ * paths, sorted. Patterns without wildcards are returned as they are.
+ */
+export async function expandGlob(pattern: string): Promise<string[]> {
+    const normalized = pattern.split(path.sep).join('/');
+    const segments = normalized.split('/');
+    if (!segments.some(hasMagic)) {
+        return [pattern];
+    }
+
+    const firstMagic = segments.findIndex(hasMagic);
+    const base = segments.slice(0, firstMagic).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    const rest = segments.slice(firstMagic);
+    const matches: string[] = [];
+
+    const walk = async (dir: string, remaining: string[]): Promise<void> => {
+        if (remaining.length === 0) return;
+        const [segment, ...tail] = remaining;
+        let entries;
+        try {
+            entries = await readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+
+        if (segment === '**') {
+            // `**` matches zero or more directories.
+            await walk(dir, tail);
+            for (const entry of entries) {
+                if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                    await walk(path.join(dir, entry.name), remaining);
+                }
+            }
+            return;
+        }
+
+        const matcher = segmentToRegExp(segment);
+        for (const entry of entries) {
+            if (!matcher.test(entry.name) || (entry.name.startsWith('.') && !segment.startsWith('.'))) continue;
+            const full = path.join(dir, entry.name);
+            if (tail.length === 0) {
+                if (entry.isFile()) matches.push(full);
+            } else if (entry.isDirectory()) {
+                await walk(full, tail);
+            }
+        }
+    };
+
+    await walk(base, rest);
+    return [...new Set(matches)].sort();
+}
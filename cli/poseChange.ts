@@ -0,0 +1,316 @@
+import { readFile, writeFile, mkdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { EditRequest, GenerationSettings, ImageFile } from '../types';
+import { changePose } from '../services/geminiService';
+import { buildPrompt } from '../services/promptBuilder';
+import { imageFileFromDataUrl, isRecord, validateEditRequest } from '../services/editRequest';
+import { classifyError, GenerationError, type GenerationErrorKind } from '../services/errors';
+import { runWithConcurrency } from '../services/concurrency';
+import { extensionForMimeType } from '../services/imageUtils';
+import { DEFAULT_GENERATION_SETTINGS, validateGenerationSettings } from '../services/generationSettings';
+import { MAX_CONCURRENT_REQUESTS } from '../constants';
+import { expandGlob } from './glob';
+
+const USAGE = `Usage: pose-change --person <file|glob> [options]
+       pose-change --job <jobs.json> [options]
+
+Inputs (each section takes text, an image, or both):
+  --person <file|glob>        Person image(s) to edit. Quote globs: "shoot/*.jpg"
+  --pose <text>               Target pose description
+  --pose-image <file>         Pose reference photo or stick-figure image
+  --clothing <text>           Clothing description
+  --clothing-image <file>     Clothing reference image
+  --background <text>         Background description
+  --background-image <file>   Background reference image
+  --no-preserve-body-shape    Allow the body shape to change
+
+Generation:
+  --model <id>                Model to use (default ${DEFAULT_GENERATION_SETTINGS.model})
+  --temperature <n>           Sampling temperature, 0 to 2
+  --seed <n>                  Fixed seed for repeatable results
+  --aspect-ratio <w:h>        Output aspect ratio, e.g. 4:5, where the model supports it
+  --translate                 Translate descriptions to English before sending
+
+Output:
+  --out <file|dir>            Output file, or a directory when there are several
+                              inputs (default: <name>-edited.<ext> next to each input)
+  --dry-run                   Print the final prompt for each job and exit
+  --concurrency <n>           Requests in flight at once (default ${MAX_CONCURRENT_REQUESTS})
+  --timeout <seconds>         Limit per request
+  -h, --help                  Show this help
+
+A job file is a JSON array of objects with the same keys in camelCase
+(person, pose, poseImage, clothing, clothingImage, background,
+backgroundImage, preserveBodyShape, out). Command-line options are used as
+defaults for every job, except that --out only works with a single job.
+
+Exit codes: 0 success, 1 unknown error, 2 usage or invalid request, 3 API key,
+4 rate limit or quota, 5 safety block, 6 no image returned, 7 network,
+8 timeout, 9 upstream server error. With several jobs, the first failure's
+code is used.`;
+
+const EXIT_CODES: Record<GenerationErrorKind, number> = {
+    unknown: 1,
+    invalidRequest: 2,
+    auth: 3,
+    quota: 4,
+    safety: 5,
+    textOnly: 6,
+    noImage: 6,
+    network: 7,
+    timeout: 8,
+    server: 9,
+    cancelled: 130,
+};
+
+const EXIT_USAGE = 2;
+
+interface JobSpec {
+    person: string;
+    pose?: string;
+    poseImage?: string;
+    clothing?: string;
+    clothingImage?: string;
+    background?: string;
+    backgroundImage?: string;
+    preserveBodyShape?: boolean;
+    out?: string;
+}
+
+class UsageError extends Error {}
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+};
+
+async function readImage(file: string): Promise<ImageFile> {
+    const mimeType = MIME_BY_EXTENSION[path.extname(file).toLowerCase()];
+    if (!mimeType) {
+        throw new UsageError(`Unsupported image type: ${file}. Use PNG, JPG or WEBP.`);
+    }
+    let data: Buffer;
+    try {
+        data = await readFile(file);
+    } catch {
+        throw new UsageError(`Cannot read ${file}.`);
+    }
+    return { dataUrl: `data:${mimeType};base64,${data.toString('base64')}`, mimeType };
+}
+
+const isDirectory = async (target: string) => {
+    try {
+        return (await stat(target)).isDirectory();
+    } catch {
+        return false;
+    }
+};
+
+async function buildRequest(job: JobSpec, person: string): Promise<EditRequest> {
+    const section = async (text?: string, image?: string) => ({
+        text,
+        image: image ? await readImage(image) : undefined,
+    });
+    return {
+        person: await readImage(person),
+        pose: await section(job.pose, job.poseImage),
+        clothing: await section(job.clothing, job.clothingImage),
+        background: await section(job.background, job.backgroundImage),
+        preserve: { identity: true, bodyShape: job.preserveBodyShape ?? true },
+    };
+}
+
+/** Where to write the result for one input, given how many inputs the job expanded to. */
+async function outputPath(job: JobSpec, person: string, inputCount: number, mimeType: string): Promise<string> {
+    const fileName = `${path.parse(person).name}-edited.${extensionForMimeType(mimeType)}`;
+    if (!job.out) {
+        return path.join(path.dirname(person), fileName);
+    }
+    if (inputCount > 1 || job.out.endsWith('/') || await isDirectory(job.out)) {
+        return path.join(job.out, fileName);
+    }
+    return job.out;
+}
+
+const JOB_TEXT_FIELDS = ['person', 'pose', 'poseImage', 'clothing', 'clothingImage', 'background', 'backgroundImage', 'out'] as const;
+
+/** Reads one job file entry from untrusted JSON, with the command-line options as defaults. */
+function parseJob(entry: unknown, label: string, defaults: Partial<JobSpec>): JobSpec {
+    if (!isRecord(entry)) {
+        throw new UsageError(`${label} must be an object.`);
+    }
+    const problems: string[] = [];
+    const job: Partial<JobSpec> = { ...defaults };
+    for (const field of JOB_TEXT_FIELDS) {
+        const value = entry[field];
+        if (value === undefined) continue;
+        if (typeof value === 'string') job[field] = value;
+        else problems.push(`"${field}" must be a string.`);
+    }
+    if (entry.preserveBodyShape !== undefined) {
+        if (typeof entry.preserveBodyShape === 'boolean') job.preserveBodyShape = entry.preserveBodyShape;
+        else problems.push('"preserveBodyShape" must be true or false.');
+    }
+    if (job.person === undefined && problems.length === 0) {
+        problems.push('it has no "person".');
+    }
+    if (problems.length > 0) {
+        throw new UsageError(`${label}: ${problems.join(' ')}`);
+    }
+    return job as JobSpec;
+}
+
+async function loadJobs(jobFile: string | undefined, defaults: Partial<JobSpec>): Promise<JobSpec[]> {
+    if (!jobFile) {
+        if (!defaults.person) {
+            throw new UsageError('Either --person or --job is required.');
+        }
+        return [defaults as JobSpec];
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await readFile(jobFile, 'utf8'));
+    } catch {
+        throw new UsageError(`Cannot read job file ${jobFile} as JSON.`);
+    }
+    const list: unknown[] = Array.isArray(raw) ? raw : [raw];
+    // Every job would write to the same file.
+    if (list.length > 1 && defaults.out) {
+        throw new UsageError('--out cannot be used with a job file of several jobs. Set "out" on each job instead.');
+    }
+    return list.map((entry, index) => parseJob(entry, `Job ${index + 1} in ${jobFile}`, defaults));
+}
+
+async function main(argv: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            person: { type: 'string' },
+            pose: { type: 'string' },
+            'pose-image': { type: 'string' },
+            clothing: { type: 'string' },
+            'clothing-image': { type: 'string' },
+            background: { type: 'string' },
+            'background-image': { type: 'string' },
+            'no-preserve-body-shape': { type: 'boolean' },
+            out: { type: 'string' },
+            job: { type: 'string' },
+            'dry-run': { type: 'boolean' },
+            concurrency: { type: 'string' },
+            timeout: { type: 'string' },
+            model: { type: 'string' },
+            temperature: { type: 'string' },
+            seed: { type: 'string' },
+            'aspect-ratio': { type: 'string' },
+            translate: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const defaults: Partial<JobSpec> = {
+        person: values.person,
+        pose: values.pose,
+        poseImage: values['pose-image'],
+        clothing: values.clothing,
+        clothingImage: values['clothing-image'],
+        background: values.background,
+        backgroundImage: values['background-image'],
+        preserveBodyShape: values['no-preserve-body-shape'] ? false : undefined,
+        out: values.out,
+    };
+    const concurrency = Number(values.concurrency ?? MAX_CONCURRENT_REQUESTS);
+    const timeoutMs = values.timeout ? Number(values.timeout) * 1000 : undefined;
+    if (!Number.isInteger(concurrency) || concurrency < 1 || (timeoutMs !== undefined && !(timeoutMs > 0))) {
+        throw new UsageError('--concurrency must be a positive integer and --timeout a positive number.');
+    }
+    const settings: GenerationSettings = {
+        ...DEFAULT_GENERATION_SETTINGS,
+        ...(values.model ? { model: values.model } : {}),
+        ...(values.temperature !== undefined ? { temperature: Number(values.temperature) } : {}),
+        ...(values.seed !== undefined ? { seed: Number(values.seed) } : {}),
+        ...(values['aspect-ratio'] ? { aspectRatio: values['aspect-ratio'] } : {}),
+        ...(values.translate ? { translatePrompts: true } : {}),
+    };
+    const settingsProblems = validateGenerationSettings(settings);
+    if (settingsProblems.length > 0) {
+        throw new UsageError(settingsProblems.join(' '));
+    }
+
+    // Without a key the provider would fall back to the mock; a script should hear about it instead.
+    if (!values['dry-run'] && !process.env.IMAGE_PROVIDER && !process.env.API_KEY) {
+        throw new GenerationError('auth', "GEMINI_API_KEY is not set. Add it to .env.local, or set IMAGE_PROVIDER=mock to run offline.");
+    }
+
+    // Expand every job's person glob into one task per input file.
+    const tasks: Array<{ job: JobSpec; person: string; inputCount: number }> = [];
+    for (const job of await loadJobs(values.job, defaults)) {
+        const persons = await expandGlob(job.person);
+        if (persons.length === 0) {
+            throw new UsageError(`No files match ${job.person}.`);
+        }
+        persons.forEach((person) => tasks.push({ job, person, inputCount: persons.length }));
+    }
+
+    const results = await runWithConcurrency(tasks.map(({ job, person, inputCount }) => async () => {
+        const request = await buildRequest(job, person);
+        const problems = validateEditRequest(request);
+        if (problems.length > 0) {
+            throw new UsageError(problems.join(' '));
+        }
+        if (values['dry-run']) {
+            console.log(`# ${person}\n${buildPrompt(request)}\n`);
+            return;
+        }
+        const output = imageFileFromDataUrl(await changePose(request, undefined, { timeoutMs, settings }));
+        const target = await outputPath(job, person, inputCount, output.mimeType);
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, Buffer.from(output.dataUrl.slice(output.dataUrl.indexOf(',') + 1), 'base64'));
+        console.log(`${person} -> ${target}`);
+    }), concurrency);
+
+    let exitCode = 0;
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') return;
+        const code = exitCodeFor(result.reason);
+        console.error(`${tasks[index].person}: ${result.reason instanceof Error ? result.reason.message : result.reason}`);
+        if (exitCode === 0) exitCode = code;
+    });
+    return exitCode;
+}
+
+function exitCodeFor(error: unknown): number {
+    if (error instanceof UsageError) return EXIT_USAGE;
+    return EXIT_CODES[classifyError(error).kind];
+}
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No .env.local; rely on the environment.
+}
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error) => {
+        console.error(error instanceof Error ? error.message : error);
+        if (error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS')) {
+            console.error(`\n${USAGE}`);
+            process.exitCode = EXIT_USAGE;
+        } else {
+            process.exitCode = exitCodeFor(error);
+        }
+    }
+);
@@ -0,0 +1,225 @@
+
+import React, { useRef, useState } from 'react';
+import type { BatchJob, EditRequest, HistoryEntry, ImageFile } from '../types';
+import type { ChangePoseOptions } from '../services/geminiService';
+import { runWithConcurrency } from '../services/concurrency';
+import { createZip } from '../services/zip';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  dataUrlToBytes,
+  downloadBlob,
+  extensionForMimeType,
+  validateImageFile,
+} from '../services/imageUtils';
+import { normalizeImageFile } from '../services/imagePreprocess';
+import { imageFileFromDataUrl } from '../services/editRequest';
+import { MAX_CONCURRENT_REQUESTS } from '../constants';
+import { UploadIcon } from './icons';
+
+interface BatchPanelProps {
+  /** Builds the shared edit for one person image, or null when nothing is configured. */
+  buildRequest: (person: ImageFile) => EditRequest | null;
+  /** Generates and records one result; `signal` cancels it. */
+  onGenerate: (request: EditRequest, options?: ChangePoseOptions) => Promise<HistoryEntry>;
+  maxDimension: number;
+}
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  running: 'bg-cyan-900 text-cyan-300',
+  done: 'bg-green-900 text-green-300',
+  failed: 'bg-red-900 text-red-300',
+};
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '') || 'image';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ buildRequest, onGenerate, maxDimension }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [rejections, setRejections] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Each run gets its own session, as in the main editor, so a cancelled run cannot update the queue.
+  const sessionRef = useRef({ id: 0, controller: new AbortController() });
+
+  const startSession = () => {
+    sessionRef.current.controller.abort();
+    sessionRef.current = { id: sessionRef.current.id + 1, controller: new AbortController() };
+    return sessionRef.current;
+  };
+
+  const updateJob = (id: string, changes: Partial<BatchJob>) => {
+    setJobs((prev) => prev.map((job) => (job.id === id ? { ...job, ...changes } : job)));
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const problems: string[] = [];
+    const images = Array.from(files).filter((file) => {
+      const rejection = validateImageFile(file);
+      if (rejection) problems.push(rejection);
+      return !rejection;
+    });
+    const settled = await Promise.allSettled(images.map(async (file): Promise<BatchJob> => ({
+      id: crypto.randomUUID(),
+      name: file.name,
+      image: await normalizeImageFile(file, maxDimension),
+      status: 'queued',
+    })));
+    const added = settled.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return [result.value];
+      problems.push(`"${images[index].name}" could not be read.`);
+      return [];
+    });
+    setRejections(problems);
+    setJobs((prev) => [...prev, ...added]);
+  };
+
+  const runJobs = async (toRun: BatchJob[]) => {
+    if (toRun.length === 0) return;
+    const session = startSession();
+    const isCurrent = () => sessionRef.current.id === session.id;
+    setIsRunning(true);
+    const tasks = toRun.map((job) => async () => {
+      if (!isCurrent()) return;
+      const request = buildRequest(job.image);
+      if (!request) {
+        updateJob(job.id, { status: 'failed', error: 'Nothing to change is configured.' });
+        return;
+      }
+      updateJob(job.id, { status: 'running', error: undefined });
+      try {
+        const { output } = await onGenerate(request, { signal: session.controller.signal });
+        if (isCurrent()) updateJob(job.id, { status: 'done', output });
+      } catch (e) {
+        if (isCurrent()) updateJob(job.id, { status: 'failed', error: e instanceof Error ? e.message : 'An unknown error occurred.' });
+      }
+    });
+    await runWithConcurrency(tasks, MAX_CONCURRENT_REQUESTS);
+    if (isCurrent()) setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    startSession();
+    setIsRunning(false);
+    setJobs((prev) => prev.map((job) => (job.status === 'running' ? { ...job, status: 'failed', error: 'Cancelled.' } : job)));
+  };
+
+  const handleRunQueued = () => runJobs(jobs.filter((job) => job.status === 'queued'));
+  const handleRetryFailed = () => {
+    const failed = jobs.filter((job) => job.status === 'failed');
+    failed.forEach((job) => updateJob(job.id, { status: 'queued', error: undefined }));
+    runJobs(failed);
+  };
+
+  const handleDownloadZip = () => {
+    const used = new Set<string>();
+    const entries = jobs
+      .filter((job) => job.status === 'done' && job.output)
+      .map((job) => {
+        const extension = extensionForMimeType(imageFileFromDataUrl(job.output!).mimeType);
+        let name = `${baseName(job.name)}-edited.${extension}`;
+        for (let n = 2; used.has(name); n++) {
+          name = `${baseName(job.name)}-edited-${n}.${extension}`;
+        }
+        used.add(name);
+        return { name, data: dataUrlToBytes(job.output!) };
+      });
+    downloadBlob(new Blob([createZip(entries)], { type: 'application/zip' }), 'pose-changer-batch.zip');
+  };
+
+  const counts = jobs.reduce(
+    (acc, job) => ({ ...acc, [job.status]: acc[job.status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 } as Record<BatchJob['status'], number>
+  );
+
+  const buttonClasses = 'px-3 py-2 text-sm rounded-lg transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-400 text-center">
+        Applies the pose, clothing and background settings from step 2 to every image in the queue.
+      </p>
+      <div
+        className="border-2 border-dashed border-gray-600 hover:border-cyan-600 bg-gray-800 rounded-lg p-6 text-center cursor-pointer transition-colors"
+        onClick={() => inputRef.current?.click()}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          addFiles(e.dataTransfer.files);
+        }}
+      >
+        <div className="flex flex-col items-center text-gray-400">
+          <UploadIcon className="w-10 h-10 mb-2" />
+          <p className="font-semibold">Add person images to the batch</p>
+          <p className="text-sm">Select or drop several PNG, JPG, or WEBP files</p>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={ACCEPTED_IMAGE_TYPES.join(', ')}
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {rejections.map((rejection) => (
+        <p key={rejection} className="text-xs text-red-400" role="alert">{rejection}</p>
+      ))}
+
+      {jobs.length > 0 && (
+        <>
+          <div className="flex flex-wrap gap-2 items-center justify-between">
+            <span className="text-sm text-gray-400">
+              {counts.done} done · {counts.failed} failed · {counts.running} running · {counts.queued} queued
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {isRunning ? (
+                <button type="button" onClick={handleCancel} className={`${buttonClasses} bg-red-600 text-white hover:bg-red-500`}>
+                  Cancel
+                </button>
+              ) : (
+                <button type="button" onClick={handleRunQueued} disabled={counts.queued === 0} className={`${buttonClasses} bg-cyan-600 text-white hover:bg-cyan-500`}>
+                  Run queued
+                </button>
+              )}
+              <button type="button" onClick={handleRetryFailed} disabled={isRunning || counts.failed === 0} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                Retry failed
+              </button>
+              <button type="button" onClick={handleDownloadZip} disabled={counts.done === 0} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+                Download zip
+              </button>
+              <button type="button" onClick={() => setJobs([])} disabled={isRunning} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-red-600`}>
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {jobs.map((job) => (
+              <li key={job.id} className="bg-gray-800 rounded-lg p-2 flex flex-col gap-2">
+                <img src={job.output ?? job.image.dataUrl} alt={job.name} className="w-full aspect-square object-cover rounded-md" />
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-gray-300 truncate" title={job.name}>{job.name}</span>
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                </div>
+                {job.error && <p className="text-xs text-red-400">{job.error}</p>}
+                {!isRunning && job.status !== 'running' && (
+                  <button
+                    type="button"
+                    onClick={() => setJobs((prev) => prev.filter((j) => j.id !== job.id))}
+                    className="text-xs text-gray-500 hover:text-red-400 self-end"
+                  >
+                    Remove
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
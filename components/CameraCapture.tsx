@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader } from './Loader';
+
+interface CameraCaptureProps {
+  onCapture: (photo: Blob) => void;
+  onCancel: () => void;
+}
+
+const cameraErrorMessage = (e: unknown): string => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access was blocked. Allow it in the browser's site settings and try again.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera was found.";
+  if (name === 'NotReadableError') return "The camera is in use by another application.";
+  return "The camera could not be started.";
+};
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser does not support camera capture. It needs a secure (https) page.");
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch((e) => {
+        if (!cancelled) setError(cameraErrorMessage(e));
+      });
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      setError("Could not capture the photo.");
+      return;
+    }
+    ctx.drawImage(video, 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) onCapture(blob);
+      else setError("Could not capture the photo.");
+    }, 'image/png');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="camera-title">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl flex flex-col gap-4 max-h-full overflow-y-auto">
+        <h3 className="text-lg font-medium text-white" id="camera-title">Take a Photo</h3>
+
+        <div className="relative flex justify-center items-center bg-gray-900 rounded-md p-2 min-h-48">
+          {error ? (
+            <p className="text-sm text-red-400 text-center">{error}</p>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                onLoadedMetadata={() => setIsReady(true)}
+                className="block max-h-[50vh] w-auto rounded"
+              />
+              {!isReady && <div className="absolute inset-0 flex items-center justify-center"><Loader /></div>}
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={handleCapture}
+            disabled={!isReady || !!error}
+            className="w-full inline-flex justify-center items-center gap-2 rounded-md px-4 py-2 bg-cyan-600 text-sm font-medium text-white hover:bg-cyan-700 disabled:bg-gray-600 transition-colors"
+          >
+            Capture
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full inline-flex justify-center rounded-md border border-gray-600 px-4 py-2 bg-gray-700 text-sm font-medium text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface CompareViewerProps {
+  before: string;
+  after: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+type CompareMode = 'split' | 'flicker' | 'sideBySide';
+
+/** Zoom factor and pan offset, as a fraction of the frame size, shared by both images. */
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const MODE_LABELS: Record<CompareMode, string> = {
+  split: 'Split',
+  flicker: 'Flicker',
+  sideBySide: 'Side by side',
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const FLICKER_INTERVAL_MS = 600;
+const INITIAL_VIEW: ViewState = { zoom: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps the zoomed image covering the frame so it can never be panned out of view. */
+const clampView = ({ zoom, x, y }: ViewState): ViewState => {
+  const limit = (zoom - 1) / 2;
+  return { zoom, x: clamp(x, -limit, limit), y: clamp(y, -limit, limit) };
+};
+
+/** Zooms around a point given relative to the frame centre, so that point stays put. */
+const zoomAround = (view: ViewState, zoom: number, cx: number, cy: number): ViewState => {
+  const next = clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+  const ratio = next / view.zoom;
+  return clampView({ zoom: next, x: cx - (cx - view.x) * ratio, y: cy - (cy - view.y) * ratio });
+};
+
+const buttonClasses = 'px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors';
+
+export const CompareViewer: React.FC<CompareViewerProps> = ({ before, after, beforeLabel = 'Original', afterLabel = 'Result' }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [split, setSplit] = useState(0.5);
+  const [showBefore, setShowBefore] = useState(false);
+  const [isFlickering, setIsFlickering] = useState(false);
+  // Frames take the original's aspect ratio; a result with a different shape is letterboxed inside it.
+  const [aspectRatio, setAspectRatio] = useState(1);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; lastX: number; lastY: number } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isFlickering || mode !== 'flicker') return;
+    const timer = window.setInterval(() => setShowBefore((prev) => !prev), FLICKER_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isFlickering, mode]);
+
+  useEffect(() => setView(INITIAL_VIEW), [before, after]);
+
+  // React registers wheel listeners as passive, so the page would scroll while zooming.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      const frame = (e.target as Element).closest('[data-compare-frame]');
+      if (!frame) return;
+      e.preventDefault();
+      const rect = frame.getBoundingClientRect();
+      const cx = (e.clientX - rect.left) / rect.width - 0.5;
+      const cy = (e.clientY - rect.top) / rect.height - 0.5;
+      setView((prev) => zoomAround(prev, prev.zoom * Math.exp(-e.deltaY * 0.002), cx, cy));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, lastX: e.clientX, lastY: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (drag.kind === 'split') {
+      setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+    } else {
+      const dx = (e.clientX - drag.lastX) / rect.width;
+      const dy = (e.clientY - drag.lastY) / rect.height;
+      setView((prev) => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+    }
+    drag.lastX = e.clientX;
+    drag.lastY = e.clientY;
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const transform = `translate(${view.x * 100}%, ${view.y * 100}%) scale(${view.zoom})`;
+
+  const layer = (src: string, alt: string, style?: React.CSSProperties) => (
+    <div className="absolute inset-0 overflow-hidden" style={style}>
+      <img
+        src={src}
+        alt={alt}
+        draggable={false}
+        className="w-full h-full object-contain select-none"
+        style={{ transform, transformOrigin: 'center' }}
+      />
+    </div>
+  );
+
+  const frame = (children: React.ReactNode, label?: string) => (
+    <div
+      data-compare-frame
+      className={`relative w-full bg-gray-900 rounded-md overflow-hidden touch-none ${view.zoom > 1 ? 'cursor-grab' : ''}`}
+      style={{ aspectRatio }}
+      onPointerDown={(e) => handlePointerDown(e, 'pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onDoubleClick={() => setView(INITIAL_VIEW)}
+    >
+      {children}
+      {label && <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded bg-slate-900/70 text-gray-200">{label}</span>}
+    </div>
+  );
+
+  return (
+    <div ref={containerRef} className="bg-gray-800 rounded-lg p-2 shadow-lg w-full flex flex-col gap-2">
+      <img
+        src={before}
+        alt=""
+        className="hidden"
+        onLoad={(e) => setAspectRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight || 1)}
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {(Object.keys(MODE_LABELS) as CompareMode[]).map((m) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${m === mode ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => setView((prev) => zoomAround(prev, prev.zoom / 1.5, 0, 0))} className={buttonClasses} aria-label="Zoom out">−</button>
+          <span className="text-xs text-gray-400 w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+          <button type="button" onClick={() => setView((prev) => zoomAround(prev, prev.zoom * 1.5, 0, 0))} className={buttonClasses} aria-label="Zoom in">+</button>
+          <button type="button" onClick={() => setView(INITIAL_VIEW)} className={buttonClasses}>Reset</button>
+        </div>
+      </div>
+
+      {mode === 'split' && frame(
+        <>
+          {layer(before, beforeLabel)}
+          {layer(after, afterLabel, { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+          <div
+            className="absolute inset-y-0 w-1 -ml-0.5 bg-cyan-400 cursor-ew-resize"
+            style={{ left: `${split * 100}%` }}
+            onPointerDown={(e) => handlePointerDown(e, 'split')}
+            role="slider"
+            aria-label="Comparison split"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split * 100)}
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowLeft') setSplit((prev) => clamp(prev - 0.05, 0, 1));
+              if (e.key === 'ArrowRight') setSplit((prev) => clamp(prev + 0.05, 0, 1));
+            }}
+          >
+            <span className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-cyan-400 border-2 border-gray-900" />
+          </div>
+          <span className="absolute top-2 left-2 px-2 py-0.5 text-xs rounded bg-slate-900/70 text-gray-200">{beforeLabel}</span>
+          <span className="absolute top-2 right-2 px-2 py-0.5 text-xs rounded bg-slate-900/70 text-gray-200">{afterLabel}</span>
+        </>
+      )}
+
+      {mode === 'flicker' && (
+        <>
+          {frame(layer(showBefore ? before : after, showBefore ? beforeLabel : afterLabel), showBefore ? beforeLabel : afterLabel)}
+          <div className="flex gap-2">
+            <button type="button" onClick={() => setShowBefore((prev) => !prev)} className={`${buttonClasses} flex-1`}>
+              Show {showBefore ? afterLabel.toLowerCase() : beforeLabel.toLowerCase()}
+            </button>
+            <button type="button" onClick={() => setIsFlickering((prev) => !prev)} className={`${buttonClasses} flex-1`}>
+              {isFlickering ? 'Stop flicker' : 'Flicker'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {mode === 'sideBySide' && (
+        <div className="grid grid-cols-2 gap-2">
+          {frame(layer(before, beforeLabel), beforeLabel)}
+          {frame(layer(after, afterLabel), afterLabel)}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500 text-center">Scroll to zoom, drag to pan, double-click to reset.</p>
+    </div>
+  );
+};
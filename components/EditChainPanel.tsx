@@ -0,0 +1,55 @@
+
+import React from 'react';
+import type { EditChain } from '../types';
+import { canRedo, canUndo, flattenChain } from '../services/editChain';
+import { describeEditRequest } from '../services/editRequest';
+
+interface EditChainPanelProps {
+  chain: EditChain;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (nodeId: string) => void;
+  disabled?: boolean;
+}
+
+const controlClasses = 'px-3 py-1 text-sm rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export const EditChainPanel: React.FC<EditChainPanelProps> = ({ chain, onUndo, onRedo, onSelect, disabled = false }) => {
+  const rows = flattenChain(chain);
+
+  return (
+    <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-200">Edit Chain</h3>
+        <div className="flex gap-2">
+          <button type="button" onClick={onUndo} disabled={disabled || !canUndo(chain)} className={controlClasses}>
+            Undo
+          </button>
+          <button type="button" onClick={onRedo} disabled={disabled || !canRedo(chain)} className={controlClasses}>
+            Redo
+          </button>
+        </div>
+      </div>
+      {rows.length > 1 && (
+        <p className="text-xs text-gray-500">Select an earlier step and generate again to branch from it.</p>
+      )}
+      <ol className="flex flex-col gap-1 max-h-64 overflow-y-auto">
+        {rows.map(({ node, depth }, index) => (
+          <li key={node.id} style={{ paddingLeft: `${depth * 1}rem` }}>
+            <button
+              type="button"
+              onClick={() => onSelect(node.id)}
+              disabled={disabled}
+              className={`w-full flex items-center gap-3 p-1 rounded-md text-left transition-colors ${node.id === chain.currentId ? 'bg-cyan-900/50 ring-1 ring-cyan-500' : 'hover:bg-gray-700/50'}`}
+            >
+              <img src={node.image.dataUrl} alt="" className="w-10 h-10 object-cover rounded" />
+              <span className="text-xs text-gray-300 truncate">
+                {index === 0 ? 'Original' : node.request ? describeEditRequest(node.request) : 'Edited image'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
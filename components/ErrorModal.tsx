@@ -4,12 +4,15 @@ import { ErrorIcon } from './icons';
 
 interface ErrorModalProps {
   isOpen: boolean;
+  title?: string;
   message: string | null;
+  /** What the user can do about this kind of failure. */
+  guidance?: string;
   onRetry: () => void;
   onClose: () => void;
 }
 
-export const ErrorModal: React.FC<ErrorModalProps> = ({ isOpen, message, onRetry, onClose }) => {
+export const ErrorModal: React.FC<ErrorModalProps> = ({ isOpen, title = 'Generation Failed', message, guidance, onRetry, onClose }) => {
   if (!isOpen || !message) {
     return null;
   }
@@ -32,12 +35,17 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({ isOpen, message, onRetry
           </div>
           <div className="mt-3">
             <h3 className="text-lg leading-6 font-medium text-white" id="error-modal-title">
-              Generation Failed
+              {title}
             </h3>
             <div className="mt-2">
-              <p className="text-sm text-gray-400">
+              <p className="text-sm text-gray-400 break-words">
                 {message}
               </p>
+              {guidance && (
+                <p className="mt-3 text-sm text-gray-300">
+                  {guidance}
+                </p>
+              )}
             </div>
           </div>
         </div>
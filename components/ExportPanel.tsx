@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { EditRequest, GenerationSettings } from '../types';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  FILENAME_VARIABLES,
+  exportImage,
+  type ExportFormat,
+  type ExportOptions,
+  type MetadataMode,
+} from '../services/exportImage';
+import { downloadBlob } from '../services/imageUtils';
+
+interface ExportPanelProps {
+  image: string;
+  request?: EditRequest;
+  prompt: string;
+  index: number;
+  settings?: GenerationSettings;
+  /** The provider that generated the image; unknown for results saved before it was recorded. */
+  provider?: string;
+}
+
+const SIZE_OPTIONS: Array<number | null> = [null, 512, 1024, 2048, 4096];
+
+const METADATA_LABELS: Record<MetadataMode, string> = {
+  embedded: 'Embed in PNG',
+  sidecar: 'JSON sidecar file',
+  none: 'None',
+};
+
+const inputClasses = 'w-full p-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ image, request, prompt, index, settings, provider }) => {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ExportOptions>) => setOptions((prev) => ({ ...prev, ...changes }));
+
+  const setFormat = (format: ExportFormat) => {
+    // Only PNG can carry the AI-generated marker inside the file; other formats always get a sidecar.
+    update({ format, metadata: format === 'image/png' ? options.metadata : 'sidecar' });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const files = await exportImage(image, options, { request, prompt, provider: provider ?? 'unknown', index, settings });
+      files.forEach((file) => downloadBlob(file.blob, file.name));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-gray-300">
+          Format
+          <select value={options.format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClasses}>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <option key={format} value={format}>{EXPORT_FORMATS[format]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Size
+          <select
+            value={options.longestSide ?? ''}
+            onChange={(e) => update({ longestSide: e.target.value ? Number(e.target.value) : null })}
+            className={inputClasses}
+          >
+            {SIZE_OPTIONS.map((size) => (
+              <option key={size ?? 'original'} value={size ?? ''}>{size ? `${size} px longest side` : 'As generated'}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {options.format !== 'image/png' && (
+        <label className="flex flex-col gap-1 text-gray-300">
+          Quality: {Math.round(options.quality * 100)}
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.01}
+            value={options.quality}
+            onChange={(e) => update({ quality: Number(e.target.value) })}
+            className="accent-cyan-500"
+          />
+        </label>
+      )}
+
+      <label className="flex flex-col gap-1 text-gray-300">
+        File name
+        <input
+          type="text"
+          value={options.filenameTemplate}
+          onChange={(e) => update({ filenameTemplate: e.target.value })}
+          className={inputClasses}
+        />
+        <span className="text-xs text-gray-500">
+          {Object.entries(FILENAME_VARIABLES).map(([name, description]) => (
+            <code key={name} className="mr-2" title={description}>{`{${name}}`}</code>
+          ))}
+        </span>
+      </label>
+
+      <label className="flex flex-col gap-1 text-gray-300">
+        Prompt and settings
+        <select value={options.metadata} onChange={(e) => update({ metadata: e.target.value as MetadataMode })} className={inputClasses}>
+          {(Object.keys(METADATA_LABELS) as MetadataMode[]).map((mode) => (
+            <option key={mode} value={mode} disabled={mode !== 'sidecar' && options.format !== 'image/png'}>
+              {METADATA_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">The record marks the image as AI-generated. PNG exports always carry that marker; JPEG and WebP exports always come with a sidecar file.</span>
+      </label>
+
+      <button
+        type="button"
+        onClick={handleExport}
+        disabled={isExporting}
+        className="bg-cyan-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-cyan-500 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed"
+      >
+        {isExporting ? 'Exporting...' : 'Download'}
+      </button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React from 'react';
+import type { GenerationSettings, SafetyCategory, SafetyThreshold } from '../types';
+import {
+  ASPECT_RATIOS,
+  DEFAULT_GENERATION_SETTINGS,
+  GENERATION_MODELS,
+  MAX_SYSTEM_INSTRUCTION_LENGTH,
+  SAFETY_CATEGORIES,
+  SAFETY_THRESHOLDS,
+  TEMPERATURE_RANGE,
+  findModel,
+} from '../services/generationSettings';
+
+interface GenerationSettingsPanelProps {
+  settings: GenerationSettings;
+  onChange: (settings: GenerationSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClasses = 'w-full p-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+/** Parses an optional number field; an empty field means "use the default". */
+const optionalNumber = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+export const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const model = findModel(settings.model);
+
+  const update = (changes: Partial<GenerationSettings>) => {
+    const next = { ...settings, ...changes };
+    // Keep the stored object free of explicit undefined values so it compares and serializes cleanly.
+    (Object.keys(next) as Array<keyof GenerationSettings>).forEach((key) => next[key] === undefined && delete next[key]);
+    onChange(next);
+  };
+
+  const setSafety = (category: SafetyCategory, threshold: SafetyThreshold | '') => {
+    const { [category]: _previous, ...rest } = settings.safety;
+    update({ safety: threshold ? { ...rest, [category]: threshold } : rest });
+  };
+
+  const seedIsValid = settings.seed === undefined || (Number.isInteger(settings.seed) && settings.seed >= 0);
+  const temperatureIsValid = settings.temperature === undefined
+    || (settings.temperature >= TEMPERATURE_RANGE.min && settings.temperature <= TEMPERATURE_RANGE.max);
+
+  return (
+    <div className="flex flex-col gap-4 text-sm">
+      <label className="flex flex-col gap-1 text-gray-300">
+        Model
+        <select value={settings.model} onChange={(e) => update({ model: e.target.value })} disabled={disabled} className={inputClasses}>
+          {GENERATION_MODELS.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-gray-300">
+          Temperature
+          <input
+            type="number"
+            min={TEMPERATURE_RANGE.min}
+            max={TEMPERATURE_RANGE.max}
+            step={0.1}
+            value={settings.temperature ?? ''}
+            onChange={(e) => update({ temperature: optionalNumber(e.target.value) })}
+            placeholder="Default"
+            disabled={disabled}
+            className={inputClasses}
+          />
+          {!temperatureIsValid && <span className="text-xs text-red-400">Use {TEMPERATURE_RANGE.min} to {TEMPERATURE_RANGE.max}.</span>}
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Seed
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={settings.seed ?? ''}
+            onChange={(e) => update({ seed: optionalNumber(e.target.value) })}
+            placeholder="Random"
+            disabled={disabled}
+            className={inputClasses}
+          />
+          {!seedIsValid && <span className="text-xs text-red-400">Use a whole number.</span>}
+        </label>
+        <label className="flex flex-col gap-1 text-gray-300">
+          Aspect ratio
+          <select
+            value={settings.aspectRatio ?? ''}
+            onChange={(e) => update({ aspectRatio: e.target.value || undefined })}
+            disabled={disabled || !model?.supportsAspectRatio}
+            className={inputClasses}
+          >
+            <option value="">Model decides</option>
+            {ASPECT_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>{ratio}</option>
+            ))}
+          </select>
+          {!model?.supportsAspectRatio && <span className="text-xs text-gray-500">Not supported by this model.</span>}
+        </label>
+      </div>
+
+      <fieldset className="flex flex-col gap-2">
+        <legend className="text-gray-300 mb-1">Safety thresholds</legend>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {(Object.keys(SAFETY_CATEGORIES) as SafetyCategory[]).map((category) => (
+            <label key={category} className="flex flex-col gap-1 text-xs text-gray-400">
+              {SAFETY_CATEGORIES[category]}
+              <select
+                value={settings.safety[category] ?? ''}
+                onChange={(e) => setSafety(category, e.target.value as SafetyThreshold | '')}
+                disabled={disabled}
+                className={inputClasses}
+              >
+                <option value="">Default</option>
+                {(Object.keys(SAFETY_THRESHOLDS) as SafetyThreshold[]).map((threshold) => (
+                  <option key={threshold} value={threshold}>{SAFETY_THRESHOLDS[threshold]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="flex flex-col gap-1 text-gray-300">
+        System instruction
+        <textarea
+          value={settings.systemInstruction ?? ''}
+          onChange={(e) => update({ systemInstruction: e.target.value || undefined })}
+          maxLength={MAX_SYSTEM_INSTRUCTION_LENGTH}
+          rows={3}
+          placeholder="None. Text here is sent to the model as its system instruction."
+          disabled={disabled}
+          className={inputClasses}
+        />
+        <span className="text-xs text-gray-500 self-end">{(settings.systemInstruction ?? '').length} / {MAX_SYSTEM_INSTRUCTION_LENGTH}</span>
+      </label>
+
+      <label className="flex items-start gap-2 text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!settings.translatePrompts}
+          onChange={(e) => update({ translatePrompts: e.target.checked || undefined })}
+          disabled={disabled}
+          className="mt-0.5 h-4 w-4 rounded border-gray-600 bg-gray-700 text-cyan-600 focus:ring-cyan-500"
+        />
+        <span>
+          Translate descriptions to English before sending
+          <span className="block text-xs text-gray-500">Image models follow English most reliably. Uses one extra text request per new description.</span>
+        </span>
+      </label>
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">Settings are saved in this browser and recorded with every result.</p>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_GENERATION_SETTINGS)}
+          disabled={disabled}
+          className="px-3 py-1 rounded-full text-xs font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+
+import React from 'react';
+import type { GenerationStage } from '../types';
+
+interface GenerationStatusProps {
+  stage: GenerationStage;
+}
+
+const STAGES: Array<{ stage: GenerationStage; label: string }> = [
+  { stage: 'preparing', label: 'Preparing images' },
+  { stage: 'uploading', label: 'Uploading' },
+  { stage: 'generating', label: 'Generating' },
+  { stage: 'decoding', label: 'Decoding result' },
+];
+
+export const GenerationStatus: React.FC<GenerationStatusProps> = ({ stage }) => {
+  const current = STAGES.findIndex((s) => s.stage === stage);
+  return (
+    <ol className="flex flex-col gap-1 text-sm" aria-live="polite">
+      {STAGES.map((s, index) => (
+        <li
+          key={s.stage}
+          className={index < current ? 'text-gray-500 line-through' : index === current ? 'text-cyan-300 font-medium' : 'text-gray-600'}
+        >
+          {index < current ? '✓' : index === current ? '›' : '·'} {s.label}
+        </li>
+      ))}
+    </ol>
+  );
+};
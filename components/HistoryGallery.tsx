@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import type { HistoryEntry } from '../types';
+import { ImageDisplay } from './ImageDisplay';
+import { describeGenerationSettings } from '../services/generationSettings';
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[];
+  onRestore: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const HistoryGallery: React.FC<HistoryGalleryProps> = ({ entries, onRestore, onDelete, onClear }) => {
+  // Up to two selected entries; with two selected they are shown side by side.
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const handleDelete = (id: string) => {
+    setSelectedIds((prev) => prev.filter((x) => x !== id));
+    onDelete(id);
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="p-6 bg-gray-800 border-2 border-dashed border-gray-700 rounded-lg text-center text-gray-500">
+        <p>Past generations will appear here</p>
+      </div>
+    );
+  }
+
+  const selected = selectedIds
+    .map((id) => entries.find((e) => e.id === id))
+    .filter((e): e is HistoryEntry => !!e);
+
+  return (
+    <div className="flex flex-col gap-6">
+      {selected.length > 0 && (
+        <div className={`grid gap-4 ${selected.length === 2 ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-1 md:w-1/2 mx-auto'}`}>
+          {selected.map((entry) => (
+            <div key={entry.id} className="flex flex-col gap-2">
+              <ImageDisplay title={formatTime(entry.createdAt)} src={entry.output} />
+              <p className="text-xs text-gray-400 whitespace-pre-wrap break-words">{entry.prompt}</p>
+              {entry.settings && <p className="text-xs text-cyan-300 break-words">{describeGenerationSettings(entry.settings)}</p>}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onRestore(entry)}
+                  className="flex-1 px-3 py-2 text-sm rounded-lg bg-cyan-600 text-white hover:bg-cyan-500 transition-colors"
+                >
+                  Restore inputs
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(entry.id)}
+                  className="px-3 py-2 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-between items-center text-sm text-gray-400">
+        <span>{entries.length} saved · select two to compare</span>
+        <button type="button" onClick={onClear} className="hover:text-red-400 transition-colors">
+          Clear history
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+        {entries.map((entry) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => toggleSelected(entry.id)}
+            className={`relative rounded-md overflow-hidden border-2 transition-colors ${selectedIds.includes(entry.id) ? 'border-cyan-500' : 'border-transparent hover:border-gray-500'}`}
+            title={formatTime(entry.createdAt)}
+          >
+            <img src={entry.output} alt={`Generation from ${formatTime(entry.createdAt)}`} className="w-full aspect-square object-cover bg-gray-800" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import {
+  centeredCrop,
+  clampCrop,
+  rotatedSize,
+  transformImage,
+  type CropRect,
+  type Rotation,
+} from '../services/imagePreprocess';
+import { loadImageElement } from '../services/imageUtils';
+import { CROP_ASPECT_PRESETS, MAX_IMAGE_DIMENSION_OPTIONS } from '../constants';
+import { Loader } from './Loader';
+
+interface ImageCropperProps {
+  image: ImageFile;
+  maxDimension: number;
+  onMaxDimensionChange: (maxDimension: number) => void;
+  onApply: (image: ImageFile) => void;
+  onCancel: () => void;
+}
+
+const chipClasses = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+export const ImageCropper: React.FC<ImageCropperProps> = ({ image, maxDimension, onMaxDimensionChange, onApply, onCancel }) => {
+  const [rotation, setRotation] = useState<Rotation>(0);
+  const [preview, setPreview] = useState<ImageFile | null>(null);
+  const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+  const [aspect, setAspect] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [crop, setCrop] = useState<CropRect>({ x: 0, y: 0, width: 1, height: 1 });
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; crop: CropRect } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(image.dataUrl)
+      .then((img) => {
+        if (!cancelled) setSourceSize({ width: img.naturalWidth, height: img.naturalHeight });
+      })
+      .catch(() => {
+        if (!cancelled) setError("This image could not be opened. Cancel and try another file.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image.dataUrl]);
+
+  // A rotated copy is rendered for the preview so the crop box is in output coordinates.
+  useEffect(() => {
+    let cancelled = false;
+    transformImage(image, { rotation, maxDimension: 1024 })
+      .then((rotated) => {
+        if (!cancelled) setPreview(rotated);
+      })
+      .catch(() => {
+        if (!cancelled) setError("This image could not be opened. Cancel and try another file.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image, rotation]);
+
+  const rotated = sourceSize ? rotatedSize(sourceSize.width, sourceSize.height, rotation) : null;
+
+  useEffect(() => {
+    if (rotated) setCrop(centeredCrop(rotated.width, rotated.height, aspect, zoom));
+  }, [rotated?.width, rotated?.height, aspect, zoom]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, crop };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStart.current;
+    const frame = e.currentTarget.parentElement?.getBoundingClientRect();
+    if (!start || !frame) return;
+    setCrop(clampCrop({
+      ...start.crop,
+      x: start.crop.x + (e.clientX - start.pointerX) / frame.width,
+      y: start.crop.y + (e.clientY - start.pointerY) / frame.height,
+    }));
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+    try {
+      onApply(await transformImage(image, { rotation, crop, maxDimension }));
+    } catch {
+      setError("Could not crop the image. Try a smaller max size, or cancel to use another file.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const outputSize = rotated
+    ? (() => {
+        const w = crop.width * rotated.width;
+        const h = crop.height * rotated.height;
+        const scale = Math.min(1, maxDimension / Math.max(w, h));
+        return `${Math.round(w * scale)} × ${Math.round(h * scale)}`;
+      })()
+    : '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="cropper-title">
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-2xl flex flex-col gap-4 max-h-full overflow-y-auto">
+        <h3 className="text-lg font-medium text-white" id="cropper-title">Prepare Your Image</h3>
+
+        <div className="flex justify-center bg-gray-900 rounded-md p-2">
+          {error && !preview ? (
+            <div className="h-48 flex items-center justify-center">
+              <p className="text-sm text-red-400 text-center" role="alert">{error}</p>
+            </div>
+          ) : preview ? (
+            <div className="relative inline-block">
+              <img src={preview.dataUrl} alt="Image to crop" className="block max-h-[50vh] w-auto select-none" draggable={false} />
+              <div
+                className="absolute border-2 border-cyan-400 cursor-move touch-none"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                }}
+                onPointerDown={onPointerDown}
+                onPointerMove={onPointerMove}
+                onPointerUp={() => (dragStart.current = null)}
+                onPointerCancel={() => (dragStart.current = null)}
+                aria-label="Crop area. Drag to move."
+              />
+            </div>
+          ) : (
+            <div className="h-48 flex items-center justify-center"><Loader /></div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-400 mr-1">Aspect</span>
+          {CROP_ASPECT_PRESETS.map((preset) => (
+            <button key={preset.label} type="button" className={chipClasses(preset.aspect === aspect)} onClick={() => setAspect(preset.aspect)}>
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Crop size
+            <input type="range" min={0.2} max={1} step={0.01} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="accent-cyan-500" />
+          </label>
+          <div className="flex gap-2">
+            <button type="button" className={chipClasses(false)} onClick={() => setRotation((r) => ((r + 270) % 360) as Rotation)}>↺ Rotate left</button>
+            <button type="button" className={chipClasses(false)} onClick={() => setRotation((r) => ((r + 90) % 360) as Rotation)}>↻ Rotate right</button>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Max size
+            <select
+              value={maxDimension}
+              onChange={(e) => onMaxDimensionChange(Number(e.target.value))}
+              className="p-1 bg-gray-700 border border-gray-600 rounded text-gray-200"
+            >
+              {MAX_IMAGE_DIMENSION_OPTIONS.map((size) => (
+                <option key={size} value={size}>{size}px</option>
+              ))}
+            </select>
+          </label>
+          <span className="text-xs text-gray-500">Output {outputSize}</span>
+        </div>
+
+        {error && preview && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!preview || isApplying}
+            className="w-full inline-flex justify-center items-center gap-2 rounded-md px-4 py-2 bg-cyan-600 text-sm font-medium text-white hover:bg-cyan-700 disabled:bg-gray-600 transition-colors"
+          >
+            {isApplying && <Loader small={true} />}
+            Apply
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full inline-flex justify-center rounded-md border border-gray-600 px-4 py-2 bg-gray-700 text-sm font-medium text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
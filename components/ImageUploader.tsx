@@ -1,25 +1,103 @@
-import React, { useCallback, useState } from 'react';
+import React, { useRef, useState } from 'react';
 import type { ImageFile } from '../types';
 import { UploadIcon } from './icons';
+import { CameraCapture } from './CameraCapture';
+import { normalizeImageFile } from '../services/imagePreprocess';
+import { ACCEPTED_IMAGE_TYPES, fetchImageBlob, validateImageFile } from '../services/imageUtils';
+import { DEFAULT_MAX_IMAGE_DIMENSION } from '../constants';
 
 interface ImageUploaderProps {
   onImageUpload: (imageFile: ImageFile) => void;
   imageSrc?: string;
+  /** Longest side, in pixels, that uploads are downscaled to. */
+  maxDimension?: number;
+  /** Drawn over the uploaded image, e.g. the selected people. */
+  overlay?: React.ReactNode;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imageSrc }) => {
+const sourceButtonClasses = 'px-3 py-1 rounded-full text-xs font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const isUrl = (text: string) => /^https?:\/\/\S+$/i.test(text.trim());
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, imageSrc, maxDimension = DEFAULT_MAX_IMAGE_DIMENSION, overlay }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUrl, setShowUrl] = useState(false);
+  const [url, setUrl] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+
+  /** Validates and normalizes an image from any source; failures are shown under the drop zone. */
+  const acceptImage = async (load: () => Promise<Blob>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const file = await load();
+      const rejection = validateImageFile(file);
+      if (rejection) {
+        setError(rejection);
+        return;
+      }
+      onImageUpload(await normalizeImageFile(file, maxDimension));
+      setShowUrl(false);
+      setUrl('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "The image could not be read.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-  const handleFileChange = (file: File | null) => {
-    if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        onImageUpload({
-          dataUrl: reader.result as string,
-          mimeType: file.type,
-        });
-      };
-      reader.readAsDataURL(file);
+  const handleFiles = (files: FileList | null | undefined) => {
+    const file = files?.[0];
+    if (!file) return;
+    acceptImage(async () => file);
+  };
+
+  const handleUrl = (address: string) => {
+    if (!address.trim()) return;
+    acceptImage(() => fetchImageBlob(address.trim()));
+  };
+
+  const onPaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    const file = e.clipboardData.files[0];
+    const text = e.clipboardData.getData('text/plain');
+    if (file) {
+      e.preventDefault();
+      acceptImage(async () => file);
+    } else if (isUrl(text)) {
+      e.preventDefault();
+      handleUrl(text);
+    }
+  };
+
+  /** The Paste button reads the clipboard directly; browsers ask for permission first. */
+  const pasteFromClipboard = async () => {
+    if (!navigator.clipboard?.read) {
+      setError("Your browser does not allow reading the clipboard from a button. Click the upload area and press Ctrl+V (⌘V) instead.");
+      return;
+    }
+    try {
+      const items = await navigator.clipboard.read();
+      for (const item of items) {
+        const type = item.types.find((t) => t.startsWith('image/'));
+        if (type) {
+          const blob = await item.getType(type);
+          acceptImage(async () => blob);
+          return;
+        }
+        if (item.types.includes('text/plain')) {
+          const text = await (await item.getType('text/plain')).text();
+          if (isUrl(text)) {
+            handleUrl(text);
+            return;
+          }
+        }
+      }
+      setError("The clipboard does not contain an image.");
+    } catch {
+      setError("The clipboard could not be read. Click the upload area and press Ctrl+V (⌘V) instead.");
     }
   };
 
@@ -41,43 +119,108 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, ima
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFileChange(e.dataTransfer.files[0]);
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   return (
-    <div
-      className={`group relative border-2 border-dashed rounded-lg text-center cursor-pointer transition-all duration-300 ${isDragging ? 'border-cyan-500 bg-gray-700/50' : 'border-gray-600 hover:border-cyan-600 bg-gray-800'} ${imageSrc ? 'p-2' : 'p-8'}`}
-      onDragEnter={onDragEnter}
-      onDragLeave={onDragLeave}
-      onDragOver={onDragOver}
-      onDrop={onDrop}
-      onClick={() => document.getElementById('file-input')?.click()}
-    >
-      {imageSrc ? (
-        <div className="relative aspect-square">
-           <img src={imageSrc} alt="Your upload" className="w-full h-full object-contain rounded-md" />
-           <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg">
-                <UploadIcon className="w-12 h-12 mb-4" />
-                <p className="font-semibold">Click or drag to change image</p>
-           </div>
-        </div>
-      ) : (
-        <div className="flex flex-col items-center justify-center text-gray-400">
-          <UploadIcon className="w-12 h-12 mb-4" />
-          <p className="font-semibold">Click to upload or drag & drop</p>
-          <p className="text-sm">PNG, JPG, or WEBP</p>
-        </div>
+    <div className="flex flex-col gap-2">
+      <div
+        role="button"
+        tabIndex={0}
+        aria-label="Upload an image: click to choose a file, drop one here, or paste"
+        className={`group relative border-2 border-dashed rounded-lg text-center cursor-pointer transition-all duration-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 ${isDragging ? 'border-cyan-500 bg-gray-700/50' : 'border-gray-600 hover:border-cyan-600 bg-gray-800'} ${imageSrc ? 'p-2' : 'p-8'}`}
+        onDragEnter={onDragEnter}
+        onDragLeave={onDragLeave}
+        onDragOver={onDragOver}
+        onDrop={onDrop}
+        onPaste={onPaste}
+        onClick={() => inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+      >
+        {imageSrc ? (
+          <div className="relative aspect-square">
+             <img src={imageSrc} alt="Your upload" className="w-full h-full object-contain rounded-md" />
+             {overlay}
+             <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center text-white opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg">
+                  <UploadIcon className="w-12 h-12 mb-4" />
+                  <p className="font-semibold">Click, drag or paste to change image</p>
+             </div>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center text-gray-400">
+            <UploadIcon className="w-12 h-12 mb-4" />
+            <p className="font-semibold">{isLoading ? 'Loading image...' : 'Click to upload, drag & drop or paste'}</p>
+            <p className="text-sm">PNG, JPG, or WEBP</p>
+          </div>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept={ACCEPTED_IMAGE_TYPES.join(', ')}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={pasteFromClipboard} disabled={isLoading} className={sourceButtonClasses}>
+          Paste
+        </button>
+        <button type="button" onClick={() => setShowUrl((prev) => !prev)} disabled={isLoading} className={sourceButtonClasses}>
+          From URL
+        </button>
+        <button type="button" onClick={() => setShowCamera(true)} disabled={isLoading} className={sourceButtonClasses}>
+          Camera
+        </button>
+      </div>
+
+      {showUrl && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUrl(url);
+          }}
+        >
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/photo.jpg"
+            className="flex-grow p-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm"
+            aria-label="Image URL"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !url.trim()}
+            className="px-3 py-2 text-sm rounded-lg bg-cyan-600 text-white hover:bg-cyan-500 transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Load
+          </button>
+        </form>
       )}
 
-      <input
-        id="file-input"
-        type="file"
-        className="hidden"
-        accept="image/png, image/jpeg, image/webp"
-        onChange={(e) => handleFileChange(e.target.files ? e.target.files[0] : null)}
-      />
+      {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+      {showCamera && (
+        <CameraCapture
+          onCapture={(photo) => {
+            setShowCamera(false);
+            acceptImage(async () => photo);
+          }}
+          onCancel={() => setShowCamera(false)}
+        />
+      )}
     </div>
   );
 };
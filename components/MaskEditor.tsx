@@ -0,0 +1,159 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile } from '../types';
+import { invertOverlay, maskToOverlay, overlayToMask } from '../services/mask';
+import { loadImageElement } from '../services/imageUtils';
+
+interface MaskEditorProps {
+  image: ImageFile;
+  mask: ImageFile | null;
+  onChange: (mask: ImageFile | null) => void;
+}
+
+const OVERLAY_COLOR: [number, number, number] = [239, 68, 68];
+
+const toolClasses = (active: boolean) =>
+  `px-3 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`;
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ image, mask, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brushSize, setBrushSize] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  // Size the overlay to the image's natural resolution and restore any existing mask.
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    loadImageElement(image.dataUrl)
+      .then(async (img) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        canvas.width = img.naturalWidth;
+        canvas.height = img.naturalHeight;
+        if (mask) {
+          await maskToOverlay(mask, canvas, OVERLAY_COLOR);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError("The mask could not be loaded for this image.");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Only re-initialize when the underlying image changes or after a failed load, not on every stroke.
+  }, [image.dataUrl, attempt]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    };
+  };
+
+  const stroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPoint.current ?? { x, y };
+    ctx.globalCompositeOperation = tool === 'brush' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = `rgb(${OVERLAY_COLOR.join(',')})`;
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPoint.current = { x, y };
+  };
+
+  const commit = () => {
+    if (canvasRef.current) onChange(overlayToMask(canvasRef.current));
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    stroke(e);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons === 1) stroke(e);
+  };
+
+  const onPointerUp = () => {
+    lastPoint.current = null;
+    commit();
+  };
+
+  const handleInvert = () => {
+    if (!canvasRef.current) return;
+    invertOverlay(canvasRef.current, OVERLAY_COLOR);
+    commit();
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  // Drops the mask that failed to load and sets the editor up again without it.
+  const handleDiscard = () => {
+    setError(null);
+    onChange(null);
+    setAttempt((n) => n + 1);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative bg-gray-800 rounded-lg p-2">
+        <img src={image.dataUrl} alt="Image being masked" className="block w-full h-auto rounded-md select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-2 w-[calc(100%-1rem)] h-[calc(100%-1rem)] opacity-50 touch-none cursor-crosshair"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          aria-label="Paint the region to change"
+        />
+      </div>
+      {error ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-sm text-red-400" role="alert">{error}</p>
+          <button type="button" className={toolClasses(false)} onClick={handleDiscard}>Discard mask</button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" className={toolClasses(tool === 'brush')} onClick={() => setTool('brush')}>Brush</button>
+            <button type="button" className={toolClasses(tool === 'eraser')} onClick={() => setTool('eraser')}>Eraser</button>
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              Size
+              <input
+                type="range"
+                min={5}
+                max={150}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="accent-cyan-500"
+              />
+            </label>
+            <button type="button" className={toolClasses(false)} onClick={handleInvert}>Invert</button>
+            <button type="button" className={toolClasses(false)} onClick={handleClear}>Clear</button>
+          </div>
+          <p className="text-xs text-gray-500">
+            {mask ? 'Only the painted region will change.' : 'Paint over the region to change, e.g. just the jacket or the background.'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { EditSection, GarmentSlot, Outfit } from '../types';
+import { GARMENT_LABELS, GARMENT_SLOTS } from '../services/outfit';
+import { ImageUploader } from './ImageUploader';
+import { TextFieldStatus } from './TextFieldStatus';
+import { MAX_USER_TEXT_LENGTH } from '../constants';
+
+interface OutfitBuilderProps {
+  outfit: Outfit;
+  onChange: (outfit: Outfit) => void;
+  maxDimension: number;
+  disabled?: boolean;
+}
+
+const PLACEHOLDERS: Record<GarmentSlot, string> = {
+  top: 'e.g. a white linen shirt',
+  bottom: 'e.g. dark slim-fit jeans',
+  shoes: 'e.g. white leather trainers',
+  outerwear: 'e.g. a camel wool coat',
+  accessories: 'e.g. round sunglasses and a silver watch',
+};
+
+export const OutfitBuilder: React.FC<OutfitBuilderProps> = ({ outfit, onChange, maxDimension, disabled = false }) => {
+  const updateSlot = (slot: GarmentSlot, changes: Partial<EditSection>) => {
+    const next: EditSection = { ...outfit[slot], ...changes };
+    const { [slot]: _previous, ...rest } = outfit;
+    onChange(next.image || next.text ? { ...rest, [slot]: next } : rest);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {GARMENT_SLOTS.map((slot) => {
+        const section = outfit[slot];
+        return (
+          <div key={slot} className="flex flex-col gap-2">
+            <span className="text-sm font-medium text-gray-300">{GARMENT_LABELS[slot]}</span>
+            {section?.image ? (
+              <div className="relative bg-gray-800 rounded-lg p-2">
+                <img src={section.image.dataUrl} alt={`${GARMENT_LABELS[slot]} reference`} className="w-full h-auto object-contain rounded-md aspect-square" />
+                <button
+                  type="button"
+                  onClick={() => updateSlot(slot, { image: undefined })}
+                  className="absolute top-3 right-3 bg-slate-900/70 text-white rounded-full px-2 text-xs leading-5 hover:bg-red-600 transition-colors"
+                  aria-label={`Remove ${GARMENT_LABELS[slot].toLowerCase()} image`}
+                >
+                  ×
+                </button>
+              </div>
+            ) : (
+              <ImageUploader onImageUpload={(image) => updateSlot(slot, { image })} maxDimension={maxDimension} />
+            )}
+            <input
+              type="text"
+              value={section?.text ?? ''}
+              onChange={(e) => updateSlot(slot, { text: e.target.value })}
+              placeholder={PLACEHOLDERS[slot]}
+              maxLength={MAX_USER_TEXT_LENGTH}
+              disabled={disabled}
+              className="p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:bg-gray-800/50 disabled:cursor-not-allowed"
+              aria-label={`${GARMENT_LABELS[slot]} description`}
+            />
+            <TextFieldStatus text={section?.text ?? ''} compact />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile, PoseJoint, PoseKeypoints } from '../types';
+import {
+  DEFAULT_POSE,
+  drawSkeleton,
+  hitTestJoint,
+  parsePose,
+  renderSkeletonImage,
+  serializePose,
+} from '../services/poseSkeleton';
+import { downloadBlob } from '../services/imageUtils';
+
+interface PoseEditorProps {
+  keypoints: PoseKeypoints;
+  onChange: (keypoints: PoseKeypoints) => void;
+  onUse: (image: ImageFile) => void;
+}
+
+const CANVAS_SIZE = 320;
+
+const buttonClasses = 'px-3 py-1 text-xs rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors';
+
+export const PoseEditor: React.FC<PoseEditorProps> = ({ keypoints, onChange, onUse }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState<PoseJoint | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawSkeleton(ctx, keypoints, CANVAS_SIZE);
+  }, [keypoints]);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const joint = hitTestJoint(keypoints, toPoint(e), 0.05);
+    if (joint) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDragging(joint);
+    }
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragging) return;
+    onChange({ ...keypoints, [dragging]: toPoint(e) });
+  };
+
+  const onPointerUp = () => setDragging(null);
+
+  const handleLoad = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onChange(parsePose(await file.text()));
+      setLoadError(null);
+    } catch (e) {
+      setLoadError(e instanceof Error ? e.message : 'Could not load the pose file.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 items-center">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_SIZE}
+        height={CANVAS_SIZE}
+        className={`w-full max-w-xs rounded-md touch-none ${dragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        aria-label="Stick figure pose editor. Drag the joints to set the pose."
+      />
+      <p className="text-xs text-gray-500">Drag the joints. Orange is the subject's left side, blue their right.</p>
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button type="button" className={buttonClasses} onClick={() => onChange(DEFAULT_POSE)}>Reset</button>
+        <button
+          type="button"
+          className={buttonClasses}
+          onClick={() => downloadBlob(new Blob([serializePose(keypoints)], { type: 'application/json' }), 'pose.json')}
+        >
+          Save pose
+        </button>
+        <button type="button" className={buttonClasses} onClick={() => fileInputRef.current?.click()}>Load pose</button>
+        <button
+          type="button"
+          className="px-3 py-1 text-xs rounded-md bg-cyan-600 text-white hover:bg-cyan-500 transition-colors"
+          onClick={() => onUse(renderSkeletonImage(keypoints))}
+        >
+          Use as pose reference
+        </button>
+      </div>
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          handleLoad(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { StylePreset } from '../types';
+import { collectTags, parsePresetFile, parseTags, presetMatches, serializePresets } from '../services/presets';
+import { downloadBlob } from '../services/imageUtils';
+import { filledGarments } from '../services/editRequest';
+import { GARMENT_LABELS } from '../services/outfit';
+
+interface PresetLibraryProps {
+  presets: StylePreset[];
+  onApply: (preset: StylePreset) => void;
+  /** Saves the current step 2 settings as a new preset. */
+  onSave: (name: string, tags: string[]) => Promise<void>;
+  onDelete: (id: string) => void;
+  onImport: (presets: StylePreset[]) => void;
+  canSave: boolean;
+}
+
+const inputClasses = 'w-full p-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+const buttonClasses = 'px-3 py-2 text-sm rounded-lg transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed';
+
+const describePreset = (preset: StylePreset) =>
+  [
+    preset.pose,
+    preset.clothing?.text ?? (preset.clothing?.image && 'clothing image'),
+    ...filledGarments(preset.outfit).map(([slot, section]) => section.text || `${GARMENT_LABELS[slot].toLowerCase()} image`),
+    preset.background?.text ?? (preset.background?.image && 'background image'),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+export const PresetLibrary: React.FC<PresetLibraryProps> = ({ presets, onApply, onSave, onDelete, onImport, canSave }) => {
+  const [query, setQuery] = useState('');
+  const [activeTags, setActiveTags] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const allTags = useMemo(() => collectTags(presets), [presets]);
+  const visible = presets.filter(
+    (preset) => presetMatches(preset, query) && activeTags.every((tag) => preset.tags.includes(tag))
+  );
+  const userPresets = presets.filter((preset) => !preset.builtIn);
+
+  const toggleTag = (tag: string) => {
+    setActiveTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(name.trim(), parseTags(tags));
+      setName('');
+      setTags('');
+      setMessage(null);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Could not save the preset.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      onImport(imported);
+      setMessage(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}.`);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Could not import the preset file.");
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializePresets(userPresets)], { type: 'application/json' }), 'pose-changer-presets.json');
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search presets"
+        className={inputClasses}
+        aria-label="Search presets"
+      />
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {allTags.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => toggleTag(tag)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${activeTags.includes(tag) ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visible.length > 0 ? (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {visible.map((preset) => (
+            <li key={preset.id} className="relative bg-gray-800 rounded-lg overflow-hidden">
+              <button
+                type="button"
+                onClick={() => onApply(preset)}
+                className="w-full text-left hover:bg-gray-700 transition-colors"
+                title={describePreset(preset)}
+              >
+                <img src={preset.thumbnail} alt="" className="w-full aspect-square object-cover" />
+                <div className="p-2">
+                  <p className="text-sm text-gray-200 truncate">{preset.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{preset.tags.join(', ') || (preset.builtIn ? 'built-in' : 'no tags')}</p>
+                </div>
+              </button>
+              {!preset.builtIn && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(preset.id)}
+                  className="absolute top-1 right-1 bg-slate-900/70 text-white rounded-full px-2 text-xs leading-5 hover:bg-red-600 transition-colors"
+                  aria-label={`Delete preset ${preset.name}`}
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No presets match.</p>
+      )}
+
+      <div className="flex flex-col gap-2 pt-3 border-t border-gray-700">
+        <label className="text-sm font-medium text-gray-300">Save current settings as a preset</label>
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClasses} />
+        <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, separated by commas" className={inputClasses} />
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave || !name.trim() || isSaving}
+            className={`${buttonClasses} bg-cyan-600 text-white hover:bg-cyan-500`}
+          >
+            Save preset
+          </button>
+          <button type="button" onClick={() => importRef.current?.click()} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+            Import
+          </button>
+          <button type="button" onClick={handleExport} disabled={userPresets.length === 0} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+            Export my presets
+          </button>
+          <input
+            ref={importRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {message && <p className="text-xs text-gray-400">{message}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import type { ProjectState } from '../types';
+import type { Autosave } from '../services/projectStore';
+import { PROJECT_FILE_EXTENSION, createProjectFile, projectFileName, readProjectFile } from '../services/project';
+import { downloadBlob } from '../services/imageUtils';
+
+interface ProjectControlsProps {
+  /** Builds the project to save, including the history; null while there is nothing to save. */
+  getProject: () => ProjectState | null;
+  onOpen: (project: ProjectState) => void;
+  /** A session autosaved before the last reload or crash, until it is restored or discarded. */
+  recovery: Autosave | null;
+  onRestore: (saved: Autosave) => void;
+  onDiscardRecovery: () => void;
+}
+
+const buttonClasses = 'px-3 py-2 text-sm rounded-lg transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed';
+
+export const ProjectControls: React.FC<ProjectControlsProps> = ({ getProject, onOpen, recovery, onRestore, onDiscardRecovery }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const project = getProject();
+    if (!project) return;
+    try {
+      const bytes = createProjectFile(project);
+      downloadBlob(new Blob([bytes], { type: 'application/zip' }), projectFileName());
+      setMessage(null);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Could not save the project.");
+    }
+  };
+
+  const handleOpen = async (file: File | undefined) => {
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      onOpen(await readProjectFile(new Uint8Array(await file.arrayBuffer())));
+      setMessage(`Opened ${file.name}.`);
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : "Could not open the project.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 mb-8">
+      {recovery && (
+        <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-cyan-900/40 border border-cyan-700 rounded-lg text-sm" role="status">
+          <span className="text-gray-200">
+            Your session from {new Date(recovery.savedAt).toLocaleString()} was saved automatically. Restore it?
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => onRestore(recovery)} className={`${buttonClasses} bg-cyan-600 text-white hover:bg-cyan-500`}>
+              Restore
+            </button>
+            <button type="button" onClick={onDiscardRecovery} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+              Start fresh
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {message && <span className="text-xs text-gray-400 mr-auto">{message}</span>}
+        <button type="button" onClick={() => inputRef.current?.click()} disabled={isBusy} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+          {isBusy ? 'Opening...' : 'Open project'}
+        </button>
+        <button type="button" onClick={handleSave} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+          Save project
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},.zip,application/zip`}
+          className="hidden"
+          onChange={(e) => {
+            handleOpen(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
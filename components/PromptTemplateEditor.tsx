@@ -0,0 +1,180 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { PromptSection, PromptTemplate, TemplateSelection } from '../types';
+import {
+  DEFAULT_TEMPLATES,
+  PROMPT_SECTIONS,
+  SECTION_CASES,
+  SECTION_LABELS,
+  TEMPLATE_VARIABLES,
+  listVariables,
+  nextTemplateVersion,
+} from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  userTemplates: PromptTemplate[];
+  selection: TemplateSelection;
+  onSelect: (section: PromptSection, templateId: string) => void;
+  onSave: (template: PromptTemplate) => void;
+  onDelete: (templateId: string) => void;
+}
+
+const CASE_LABELS: Record<string, string> = {
+  default: 'Text',
+  group: 'With people selected in a group photo',
+  image: 'With reference image',
+  imageText: 'With reference image and text',
+  text: 'With text only',
+  none: 'When empty',
+  on: 'When enabled',
+};
+
+const inputClasses = 'w-full p-2 bg-gray-800 border-2 border-gray-700 rounded-lg focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 text-sm';
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ userTemplates, selection, onSelect, onSave, onDelete }) => {
+  const [section, setSection] = useState<PromptSection>('pose');
+  const templates = useMemo(
+    () => [...DEFAULT_TEMPLATES, ...userTemplates].filter((t) => t.section === section),
+    [userTemplates, section]
+  );
+  const current = templates.find((t) => t.id === selection[section]) ?? templates[0];
+  const [draftName, setDraftName] = useState(current.name);
+  const [draftCases, setDraftCases] = useState<Record<string, string>>(current.cases);
+  /** An earlier version loaded into the draft, or null for the current one. */
+  const [viewedVersion, setViewedVersion] = useState<number | null>(null);
+
+  // Reset the draft whenever a different template (or a new version of it) is shown.
+  useEffect(() => {
+    setDraftName(current.name);
+    setDraftCases(current.cases);
+    setViewedVersion(null);
+  }, [current.id, current.version]);
+
+  const viewVersion = (version: number | null) => {
+    const shown = current.previousVersions?.find((v) => v.version === version) ?? current;
+    setViewedVersion(version);
+    setDraftName(shown.name);
+    setDraftCases(shown.cases);
+  };
+
+  const isDirty = draftName !== current.name || SECTION_CASES[section].some((c) => (draftCases[c] ?? '') !== (current.cases[c] ?? ''));
+  const unknownVariables = SECTION_CASES[section]
+    .flatMap((c) => listVariables(draftCases[c] ?? ''))
+    .filter((v) => !(v in TEMPLATE_VARIABLES));
+
+  const saveAsNew = () => {
+    const template: PromptTemplate = {
+      id: `user-${section}-${Date.now().toString(36)}`,
+      name: draftName.trim() === current.name ? `${current.name} (copy)` : draftName.trim() || 'Untitled',
+      version: 1,
+      section,
+      cases: { ...draftCases },
+    };
+    onSave(template);
+    onSelect(section, template.id);
+  };
+
+  const saveVersion = () => {
+    onSave(nextTemplateVersion(current, { name: draftName.trim() || current.name, cases: { ...draftCases } }));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-wrap gap-2">
+        {PROMPT_SECTIONS.map((s) => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => setSection(s)}
+            className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${s === section ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+          >
+            {SECTION_LABELS[s]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <select
+          value={current.id}
+          onChange={(e) => onSelect(section, e.target.value)}
+          className={inputClasses}
+          aria-label={`${SECTION_LABELS[section]} template`}
+        >
+          {templates.map((t) => (
+            <option key={t.id} value={t.id}>{t.name} (v{t.version}){t.builtIn ? ' – built-in' : ''}</option>
+          ))}
+        </select>
+        {!current.builtIn && (
+          <button
+            type="button"
+            onClick={() => onDelete(current.id)}
+            className="px-3 py-2 text-sm rounded-lg bg-gray-700 text-gray-300 hover:bg-red-600 hover:text-white transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {!!current.previousVersions?.length && (
+        <select
+          value={viewedVersion ?? ''}
+          onChange={(e) => viewVersion(e.target.value === '' ? null : Number(e.target.value))}
+          className={inputClasses}
+          aria-label="Template version"
+        >
+          <option value="">Current version (v{current.version})</option>
+          {[...current.previousVersions].reverse().map((v) => (
+            <option key={v.version} value={v.version}>v{v.version}: {v.name}</option>
+          ))}
+        </select>
+      )}
+
+      <input
+        type="text"
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        className={inputClasses}
+        aria-label="Template name"
+      />
+
+      {SECTION_CASES[section].map((c) => (
+        <div key={c}>
+          <label className="block text-xs font-medium text-gray-400 mb-1">{CASE_LABELS[c] ?? c}</label>
+          <textarea
+            value={draftCases[c] ?? ''}
+            onChange={(e) => setDraftCases((prev) => ({ ...prev, [c]: e.target.value }))}
+            className={`${inputClasses} resize-y h-16`}
+            rows={2}
+          />
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-500">
+        Variables: {Object.entries(TEMPLATE_VARIABLES).map(([name, description]) => `{{${name}}} – ${description}`).join(', ')}
+      </p>
+      {unknownVariables.length > 0 && (
+        <p className="text-xs text-yellow-400">Unknown variables will render empty: {unknownVariables.join(', ')}</p>
+      )}
+
+      <div className="flex gap-2">
+        {!current.builtIn && (
+          <button
+            type="button"
+            onClick={saveVersion}
+            disabled={!isDirty}
+            className="flex-1 px-3 py-2 text-sm rounded-lg bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+          >
+            {viewedVersion === null ? `Save as v${current.version + 1}` : `Restore v${viewedVersion} as v${current.version + 1}`}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={saveAsNew}
+          className="flex-1 px-3 py-2 text-sm rounded-lg bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors"
+        >
+          Save as new template
+        </button>
+      </div>
+    </div>
+  );
+};
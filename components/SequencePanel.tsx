@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { EditRequest, HistoryEntry, PoseKeypoints, SequenceFrame } from '../types';
+import type { ChangePoseOptions } from '../services/geminiService';
+import { runWithConcurrency } from '../services/concurrency';
+import { drawSkeleton } from '../services/poseSkeleton';
+import { animationFileName, createGif, recordWebm, webmMimeType } from '../services/animation';
+import { downloadBlob } from '../services/imageUtils';
+import {
+  ANIMATION_SIZE_OPTIONS,
+  DEFAULT_FRAME_DURATION_MS,
+  MAX_CONCURRENT_REQUESTS,
+  MAX_SEQUENCE_FRAMES,
+  MAX_USER_TEXT_LENGTH,
+} from '../constants';
+import { TextFieldStatus } from './TextFieldStatus';
+
+interface SequencePanelProps {
+  /** Builds the edit for one keyframe from the original image, or null when there is no image. */
+  buildRequest: (frame: SequenceFrame) => EditRequest | null;
+  /** Generates and records one result; `signal` cancels it. */
+  onGenerate: (request: EditRequest, options?: ChangePoseOptions) => Promise<HistoryEntry>;
+  /** The image every keyframe starts from; generated frames are dropped when it changes. */
+  sourceImage?: string;
+  /** The stick figure from step 2, which a frame can take as its pose. */
+  currentKeypoints: PoseKeypoints;
+  disabled?: boolean;
+}
+
+const STATUS_STYLES: Record<SequenceFrame['status'], string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  running: 'bg-cyan-900 text-cyan-300',
+  done: 'bg-green-900 text-green-300',
+  failed: 'bg-red-900 text-red-300',
+};
+
+const DURATION_RANGE_MS = { min: 20, max: 10_000 };
+
+const buttonClasses = 'px-3 py-2 text-sm rounded-lg transition-colors disabled:bg-gray-600 disabled:text-gray-400 disabled:cursor-not-allowed';
+const smallButtonClasses = 'text-xs text-gray-400 hover:text-cyan-300 disabled:text-gray-600 disabled:cursor-not-allowed';
+const inputClasses = 'p-2 bg-gray-800 border-2 border-gray-700 rounded-lg text-sm focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500';
+
+const newFrame = (changes: Partial<SequenceFrame> = {}): SequenceFrame => ({
+  id: crypto.randomUUID(),
+  text: '',
+  durationMs: DEFAULT_FRAME_DURATION_MS,
+  status: 'queued',
+  ...changes,
+});
+
+const SkeletonThumbnail: React.FC<{ keypoints: PoseKeypoints }> = ({ keypoints }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) drawSkeleton(ctx, keypoints, 96);
+  }, [keypoints]);
+  return <canvas ref={canvasRef} width={96} height={96} className="w-full aspect-square rounded-md" aria-label="Stick figure pose" />;
+};
+
+const clampDuration = (value: number) =>
+  Math.min(DURATION_RANGE_MS.max, Math.max(DURATION_RANGE_MS.min, Math.round(value)));
+
+/** Edits a duration as free text and only clamps it once editing ends, so typing "1500" is not cut short. */
+const DurationInput: React.FC<{ value: number; onChange: (value: number) => void }> = ({ value, onChange }) => {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = Number(text);
+    const next = text.trim() === '' || !Number.isFinite(parsed) ? value : clampDuration(parsed);
+    setText(String(next));
+    if (next !== value) onChange(next);
+  };
+
+  return (
+    <input
+      type="number"
+      min={DURATION_RANGE_MS.min}
+      max={DURATION_RANGE_MS.max}
+      step={10}
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className={`${inputClasses} w-24`}
+    />
+  );
+};
+
+export const SequencePanel: React.FC<SequencePanelProps> = ({ buildRequest, onGenerate, sourceImage, currentKeypoints, disabled = false }) => {
+  const [frames, setFrames] = useState<SequenceFrame[]>(() => [newFrame()]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [animationSize, setAnimationSize] = useState(512);
+  const [exporting, setExporting] = useState<'gif' | 'webm' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  // Each run gets its own session, as in the main editor, so a cancelled run cannot update the frames.
+  const sessionRef = useRef({ id: 0, controller: new AbortController() });
+  const sourceRef = useRef(sourceImage);
+
+  const startSession = () => {
+    sessionRef.current.controller.abort();
+    sessionRef.current = { id: sessionRef.current.id + 1, controller: new AbortController() };
+    return sessionRef.current;
+  };
+
+  // Frames made from another image would not animate one person, so a new upload starts them over.
+  useEffect(() => {
+    if (sourceRef.current === sourceImage) return;
+    sourceRef.current = sourceImage;
+    startSession();
+    setIsRunning(false);
+    setFrames((prev) => prev.map((frame) => ({ ...frame, status: 'queued', output: undefined, error: undefined })));
+  }, [sourceImage]);
+
+  const finished = useMemo(() => frames.filter((frame) => frame.status === 'done' && frame.output), [frames]);
+
+  // Play the finished frames in order, each for its own duration.
+  useEffect(() => {
+    if (finished.length === 0) return;
+    const index = previewIndex % finished.length;
+    const timer = setTimeout(() => setPreviewIndex(index + 1), finished[index].durationMs);
+    return () => clearTimeout(timer);
+  }, [previewIndex, finished]);
+
+  const updateFrame = (id: string, changes: Partial<SequenceFrame>) => {
+    setFrames((prev) => prev.map((frame) => (frame.id === id ? { ...frame, ...changes } : frame)));
+  };
+
+  const moveFrame = (index: number, offset: number) => {
+    setFrames((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const runFrames = async (toRun: SequenceFrame[]) => {
+    if (toRun.length === 0) return;
+    const session = startSession();
+    const isCurrent = () => sessionRef.current.id === session.id;
+    setIsRunning(true);
+    const tasks = toRun.map((frame) => async () => {
+      if (!isCurrent()) return;
+      if (!frame.text.trim() && !frame.keypoints) {
+        updateFrame(frame.id, { status: 'failed', error: 'Describe the pose or use a stick figure.' });
+        return;
+      }
+      const request = buildRequest(frame);
+      if (!request) {
+        updateFrame(frame.id, { status: 'failed', error: 'Upload an image first.' });
+        return;
+      }
+      updateFrame(frame.id, { status: 'running', error: undefined });
+      try {
+        const { output } = await onGenerate(request, { signal: session.controller.signal });
+        if (isCurrent()) updateFrame(frame.id, { status: 'done', output });
+      } catch (e) {
+        if (isCurrent()) updateFrame(frame.id, { status: 'failed', error: e instanceof Error ? e.message : 'An unknown error occurred.' });
+      }
+    });
+    await runWithConcurrency(tasks, MAX_CONCURRENT_REQUESTS);
+    if (isCurrent()) setIsRunning(false);
+  };
+
+  const handleCancel = () => {
+    startSession();
+    setIsRunning(false);
+    setFrames((prev) => prev.map((frame) => (frame.status === 'running' ? { ...frame, status: 'failed', error: 'Cancelled.' } : frame)));
+  };
+
+  const handleExport = async (format: 'gif' | 'webm') => {
+    setExporting(format);
+    setMessage(null);
+    try {
+      const animationFrames = finished.map((frame) => ({ image: frame.output!, durationMs: frame.durationMs }));
+      const blob = format === 'gif'
+        ? await createGif(animationFrames, animationSize)
+        : await recordWebm(animationFrames, animationSize);
+      downloadBlob(blob, animationFileName(format));
+    } catch (e) {
+      setMessage(e instanceof Error ? e.message : 'Could not create the animation.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const pending = frames.filter((frame) => frame.status === 'queued' || frame.status === 'failed');
+  const totalMs = finished.reduce((sum, frame) => sum + frame.durationMs, 0);
+  const canAdd = frames.length < MAX_SEQUENCE_FRAMES && !disabled;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <p className="text-sm text-gray-400 text-center">
+        Each keyframe is generated from the original image with the clothing and background from step 2, so the person stays the same from frame to frame.
+      </p>
+
+      <ol className="flex flex-col gap-3">
+        {frames.map((frame, index) => (
+          <li key={frame.id} className="bg-gray-800 rounded-lg p-3 grid grid-cols-[6rem_1fr] gap-3">
+            <div className="flex flex-col gap-1">
+              {frame.output ? (
+                <img src={frame.output} alt={`Frame ${index + 1}`} className="w-full aspect-square object-cover rounded-md" />
+              ) : frame.keypoints ? (
+                <SkeletonThumbnail keypoints={frame.keypoints} />
+              ) : (
+                <div className="w-full aspect-square rounded-md bg-gray-700 flex items-center justify-center text-xs text-gray-500">No image yet</div>
+              )}
+              <span className={`text-xs px-2 py-0.5 rounded-full text-center ${STATUS_STYLES[frame.status]}`}>{frame.status}</span>
+            </div>
+            <div className="flex flex-col gap-2 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-gray-200">Frame {index + 1}</span>
+                <div className="ml-auto flex gap-3">
+                  <button type="button" onClick={() => moveFrame(index, -1)} disabled={isRunning || index === 0} className={smallButtonClasses} aria-label={`Move frame ${index + 1} earlier`}>↑</button>
+                  <button type="button" onClick={() => moveFrame(index, 1)} disabled={isRunning || index === frames.length - 1} className={smallButtonClasses} aria-label={`Move frame ${index + 1} later`}>↓</button>
+                  <button
+                    type="button"
+                    onClick={() => setFrames((prev) => prev.filter((f) => f.id !== frame.id))}
+                    disabled={frame.status === 'running'}
+                    className="text-xs text-gray-500 hover:text-red-400 disabled:text-gray-600"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <input
+                type="text"
+                value={frame.text}
+                onChange={(e) => updateFrame(frame.id, { text: e.target.value })}
+                placeholder="Pose for this frame, e.g. arms raised halfway"
+                maxLength={MAX_USER_TEXT_LENGTH}
+                disabled={disabled}
+                className={inputClasses}
+                aria-label={`Frame ${index + 1} pose`}
+              />
+              <TextFieldStatus text={frame.text} compact />
+              <div className="flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-xs text-gray-400">
+                  Duration
+                  <DurationInput value={frame.durationMs} onChange={(durationMs) => updateFrame(frame.id, { durationMs })} />
+                  ms
+                </label>
+                <button
+                  type="button"
+                  onClick={() => updateFrame(frame.id, { keypoints: frame.keypoints ? undefined : currentKeypoints })}
+                  disabled={disabled}
+                  className={smallButtonClasses}
+                >
+                  {frame.keypoints ? 'Remove stick figure' : 'Use stick figure from step 2'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => runFrames([frame])}
+                  disabled={disabled || isRunning}
+                  className={`${smallButtonClasses} ml-auto`}
+                >
+                  {frame.status === 'done' ? 'Regenerate' : 'Generate'}
+                </button>
+              </div>
+              {frame.error && <p className="text-xs text-red-400">{frame.error}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap gap-2 items-center justify-between">
+        <div className="flex flex-wrap gap-2">
+          <button type="button" onClick={() => setFrames((prev) => [...prev, newFrame()])} disabled={!canAdd} className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}>
+            Add frame
+          </button>
+          <button
+            type="button"
+            onClick={() => setFrames((prev) => [...prev, newFrame({ keypoints: currentKeypoints })])}
+            disabled={!canAdd}
+            className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}
+          >
+            Add stick figure frame
+          </button>
+        </div>
+        {isRunning ? (
+          <button type="button" onClick={handleCancel} className={`${buttonClasses} bg-red-600 text-white hover:bg-red-500`}>
+            Cancel
+          </button>
+        ) : (
+          <button type="button" onClick={() => runFrames(pending)} disabled={disabled || pending.length === 0} className={`${buttonClasses} bg-cyan-600 text-white hover:bg-cyan-500`}>
+            {`Generate ${pending.length} frame${pending.length === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+
+      {finished.length > 0 && (
+        <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col sm:flex-row gap-4 items-center">
+          <img
+            src={finished[previewIndex % finished.length].output}
+            alt="Animation preview"
+            className="w-48 aspect-square object-contain rounded-md bg-black"
+          />
+          <div className="flex flex-col gap-3 flex-1">
+            <p className="text-sm text-gray-400">
+              {finished.length} of {frames.length} frames ready · {(totalMs / 1000).toFixed(1)} s per loop
+            </p>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              Size
+              <select value={animationSize} onChange={(e) => setAnimationSize(Number(e.target.value))} className={inputClasses}>
+                {ANIMATION_SIZE_OPTIONS.map((size) => (
+                  <option key={size} value={size}>{size} px</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => handleExport('gif')} disabled={!!exporting} className={`${buttonClasses} bg-cyan-600 text-white hover:bg-cyan-500`}>
+                {exporting === 'gif' ? 'Encoding...' : 'Download GIF'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('webm')}
+                disabled={!!exporting || !webmMimeType()}
+                title={webmMimeType() ? undefined : 'This browser cannot record WebM video.'}
+                className={`${buttonClasses} bg-gray-700 text-gray-200 hover:bg-gray-600`}
+              >
+                {exporting === 'webm' ? 'Recording...' : 'Download WebM'}
+              </button>
+            </div>
+            {message && <p className="text-xs text-red-400">{message}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
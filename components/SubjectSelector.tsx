@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageFile, Subject, SubjectBox } from '../types';
+import { MIN_BOX_SIZE, boxAroundPoint, boxFromCorners, createSubject } from '../services/subjects';
+import { loadImageElement } from '../services/imageUtils';
+
+interface SubjectSelectorProps {
+  image: ImageFile;
+  subjects: Subject[];
+  onChange: (subjects: Subject[]) => void;
+}
+
+interface SubjectOverlayProps {
+  subjects: Subject[];
+  /** The image under the overlay, used to line boxes up with letterboxed `object-contain` images. */
+  imageSrc: string;
+}
+
+const boxStyle = (box: SubjectBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+const SubjectBoxes: React.FC<{ subjects: Subject[]; onRemove?: (id: string) => void }> = ({ subjects, onRemove }) => (
+  <>
+    {subjects.map((subject) => (
+      <div key={subject.id} className="absolute border-2 border-cyan-400 bg-cyan-400/10 rounded-sm pointer-events-none" style={boxStyle(subject.box)}>
+        <span className="absolute -top-0.5 left-0 -translate-y-full flex items-center gap-1 px-1.5 text-xs rounded-t bg-cyan-400 text-gray-900 whitespace-nowrap pointer-events-auto">
+          {subject.label}
+          {onRemove && (
+            <button
+              type="button"
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => onRemove(subject.id)}
+              className="leading-none hover:text-red-700"
+              aria-label={`Remove ${subject.label}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      </div>
+    ))}
+  </>
+);
+
+/** Read-only subject boxes drawn over an `object-contain` image filling its parent. */
+export const SubjectOverlay: React.FC<SubjectOverlayProps> = ({ subjects, imageSrc }) => {
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(imageSrc)
+      .then((img) => {
+        if (!cancelled) setAspectRatio(img.naturalWidth / img.naturalHeight);
+      })
+      .catch(() => setAspectRatio(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  if (!aspectRatio || subjects.length === 0) return null;
+  return (
+    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+      <div
+        className="relative max-w-full max-h-full"
+        style={{ aspectRatio, width: aspectRatio >= 1 ? '100%' : 'auto', height: aspectRatio >= 1 ? 'auto' : '100%' }}
+      >
+        <SubjectBoxes subjects={subjects} />
+      </div>
+    </div>
+  );
+};
+
+export const SubjectSelector: React.FC<SubjectSelectorProps> = ({ image, subjects, onChange }) => {
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<SubjectBox | null>(null);
+
+  const toPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (startRef.current) setDraft(boxFromCorners(startRef.current, toPoint(e)));
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const dragged = boxFromCorners(start, toPoint(e));
+    // A click, rather than a drag, places a person-sized box around the point.
+    const box = dragged.width < MIN_BOX_SIZE || dragged.height < MIN_BOX_SIZE ? boxAroundPoint(start) : dragged;
+    onChange([...subjects, createSubject(box, subjects)]);
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  const onPointerCancel = () => {
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="bg-gray-800 rounded-lg p-2">
+        <div
+          className="relative touch-none cursor-crosshair"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerCancel}
+          aria-label="Click or drag around each person to edit"
+        >
+          <img src={image.dataUrl} alt="Image with selected people" className="block w-full h-auto rounded-md select-none" draggable={false} />
+          <SubjectBoxes subjects={subjects} onRemove={(id) => onChange(subjects.filter((subject) => subject.id !== id))} />
+          {draft && <div className="absolute border-2 border-dashed border-white pointer-events-none" style={boxStyle(draft)} />}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Click a person or drag a box around them. Only selected people are edited; everyone else is kept as is.
+        </p>
+        {subjects.length > 0 && (
+          <button type="button" onClick={() => onChange([])} className="px-3 py-1 rounded-full text-xs font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { MAX_USER_TEXT_LENGTH } from '../constants';
+import { findSuspiciousText } from '../services/promptSafety';
+
+interface TextFieldStatusProps {
+  text: string;
+  limit?: number;
+  /** For one-line inputs: the counter only appears as the text nears the limit. */
+  compact?: boolean;
+}
+
+/** The character count and any warnings shown under a description field. */
+export const TextFieldStatus: React.FC<TextFieldStatusProps> = ({ text, limit = MAX_USER_TEXT_LENGTH, compact = false }) => {
+  const warnings = text ? findSuspiciousText(text) : [];
+  const showCount = !compact || text.length >= limit * 0.8;
+  if (!showCount && warnings.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1 mt-1 text-xs">
+      {warnings.map((warning) => (
+        <p key={warning} className="text-amber-400" role="status">{warning}</p>
+      ))}
+      {showCount && (
+        <span className={`self-end ${text.length >= limit ? 'text-amber-400' : 'text-gray-500'}`}>
+          {text.length} / {limit}
+        </span>
+      )}
+    </div>
+  );
+};
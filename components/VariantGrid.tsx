@@ -0,0 +1,105 @@
+
+import React from 'react';
+import type { PreservationScores, VariantSlot } from '../types';
+import { isPreservationViolated } from '../services/preservation';
+import { Loader } from './Loader';
+import { GenerationStatus } from './GenerationStatus';
+
+interface VariantGridProps {
+  slots: VariantSlot[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  onRegenerate: (index: number) => void;
+  onPromote: (index: number) => void;
+  disabled?: boolean;
+  /** Scores below this are flagged as possibly not preserving the person. */
+  preservationThreshold: number;
+}
+
+const percent = (score: number | null) => (score === null ? 'n/a' : `${Math.round(score * 100)}%`);
+
+const PreservationBadge: React.FC<{ scores: PreservationScores; checkBodyShape: boolean; threshold: number }> = ({ scores, checkBodyShape, threshold }) => {
+  const violated = isPreservationViolated(scores, threshold, checkBodyShape);
+  return (
+    <p
+      className={`mt-2 px-2 py-1 rounded-md text-xs ${violated ? 'bg-amber-900/40 text-amber-300' : 'bg-green-900/30 text-green-300'}`}
+      title="Compares face and body proportions with the original. A heuristic: check flagged results by eye."
+    >
+      {violated ? '⚠ The person may have changed · ' : '✓ '}
+      Identity {percent(scores.identity)}
+      {checkBodyShape && ` · Body shape ${percent(scores.bodyShape)}`}
+    </p>
+  );
+};
+
+const slotButtonClasses = 'px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+export const VariantGrid: React.FC<VariantGridProps> = ({ slots, selectedIndex, onSelect, onRegenerate, onPromote, disabled = false, preservationThreshold }) => {
+  return (
+    <div className={`grid gap-4 ${slots.length > 1 ? 'grid-cols-1 sm:grid-cols-2' : 'grid-cols-1'}`}>
+      {slots.map((slot, index) => {
+        const isSelected = index === selectedIndex && slot.status === 'done';
+        return (
+          <div
+            key={index}
+            className={`bg-gray-800 rounded-lg p-2 shadow-lg border-2 transition-colors ${isSelected && slots.length > 1 ? 'border-cyan-500' : 'border-transparent'}`}
+          >
+            {slot.status === 'pending' && (
+              <div className="aspect-square flex flex-col items-center justify-center text-center p-4">
+                <Loader />
+                <p className="mt-4 mb-3 text-gray-400">The AI is striking a new pose...</p>
+                <GenerationStatus stage={slot.stage ?? 'preparing'} />
+              </div>
+            )}
+            {slot.status === 'failed' && (
+              <div className="aspect-square flex flex-col items-center justify-center text-center p-4 bg-red-900/20 rounded-md">
+                <p className="text-red-400 text-sm">{slot.error ?? 'Generation failed.'}</p>
+              </div>
+            )}
+            {slot.status === 'done' && slot.image && (
+              <button type="button" onClick={() => onSelect(index)} className="block w-full">
+                <img
+                  src={slot.image}
+                  alt={`Variant ${index + 1}`}
+                  className="w-full h-auto object-contain rounded-md aspect-square"
+                />
+              </button>
+            )}
+            {slot.status === 'done' && slot.scores && (
+              <PreservationBadge
+                scores={slot.scores}
+                checkBodyShape={slot.request?.preserve.bodyShape ?? true}
+                threshold={preservationThreshold}
+              />
+            )}
+            <div className="flex items-center justify-between mt-2 gap-2">
+              <h3 className="font-semibold text-gray-300 text-sm">
+                {slots.length > 1 ? `Variant ${index + 1}` : 'Generated Pose'}
+                {isSelected && slots.length > 1 && <span className="ml-2 text-cyan-400">★ Favorite</span>}
+              </h3>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => onRegenerate(index)}
+                  disabled={disabled || slot.status === 'pending'}
+                  className={slotButtonClasses}
+                >
+                  Regenerate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onPromote(index)}
+                  disabled={slot.status !== 'done'}
+                  className={slotButtonClasses}
+                  title="Continue editing from this result"
+                >
+                  Use as input
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
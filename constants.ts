@@ -1,2 +1,52 @@
 
 export const INITIAL_IMAGE_URL = 'https://storage.googleapis.com/generative-ai-story/web-apps/change-my-pose/original.png';
+
+export const MAX_VARIANTS = 4;
+
+/** Upper bound on generation requests in flight at once. */
+export const MAX_CONCURRENT_REQUESTS = 2;
+
+/** Uploads are downscaled so their longest side is at most this many pixels. */
+export const DEFAULT_MAX_IMAGE_DIMENSION = 1536;
+
+export const MAX_IMAGE_DIMENSION_OPTIONS = [1024, 1536, 2048, 4096];
+
+/** Longest text accepted in any one description field. */
+export const MAX_USER_TEXT_LENGTH = 500;
+
+/** Files larger than this are rejected before decoding. */
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+/** Width/height ratios offered when cropping; null keeps the image's own ratio. */
+export const CROP_ASPECT_PRESETS: Array<{ label: string; aspect: number | null }> = [
+  { label: 'Original', aspect: null },
+  { label: '1:1', aspect: 1 },
+  { label: '4:5', aspect: 4 / 5 },
+  { label: '9:16', aspect: 9 / 16 },
+  { label: '16:9', aspect: 16 / 9 },
+];
+
+/** How long a single generation may take before it is aborted. */
+export const DEFAULT_TIMEOUT_MS = 120_000;
+
+export const TIMEOUT_OPTIONS_MS = [30_000, 60_000, 120_000, 300_000];
+
+/** How long the editor must be idle before the session is autosaved. */
+export const AUTOSAVE_DELAY_MS = 1_500;
+
+/** Results scoring below this on identity or body shape get a warning. */
+export const DEFAULT_PRESERVATION_THRESHOLD = 0.85;
+
+export const PRESERVATION_THRESHOLD_OPTIONS = [0.75, 0.8, 0.85, 0.9, 0.95];
+
+/** Extra attempts made per variant when automatic retry is on and the result scores too low. */
+export const MAX_PRESERVATION_RETRIES = 2;
+
+/** Keyframes in one pose sequence. */
+export const MAX_SEQUENCE_FRAMES = 24;
+
+/** How long each keyframe shows in the animation unless changed. */
+export const DEFAULT_FRAME_DURATION_MS = 500;
+
+/** Longest side of exported animations, in pixels. */
+export const ANIMATION_SIZE_OPTIONS = [256, 512, 768];
@@ -0,0 +1,117 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiServer, validateGenerateInput, type ServerOptions } from './app';
+import { createFakeUpstream } from './fakeUpstream';
+import { DEFAULT_GENERATION_SETTINGS } from '../services/generationSettings';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+
+const image = { data: 'AAAA', mimeType: 'image/png' };
+const valid = { person: image, references: [image], instructions: 'Change their pose.' };
+
+describe('validateGenerateInput', () => {
+    it('accepts a well-formed body, with or without settings', () => {
+        assert.deepEqual(validateGenerateInput(valid), []);
+        assert.deepEqual(validateGenerateInput({ ...valid, settings: DEFAULT_GENERATION_SETTINGS }), []);
+    });
+
+    it('rejects a body that is not an object', () => {
+        for (const body of [null, 'text', [valid]]) {
+            assert.deepEqual(validateGenerateInput(body), ['Body must be a JSON object.']);
+        }
+    });
+
+    it('reports every malformed field', () => {
+        const problems = validateGenerateInput({ person: { data: '', mimeType: 'image/png' }, references: 'none', instructions: ' ' });
+        assert.equal(problems.length, 3);
+        assert.match(problems[0], /^person/);
+        assert.match(problems[1], /^references/);
+        assert.match(problems[2], /^instructions/);
+    });
+
+    it('rejects non-image MIME types, too many references and overlong instructions', () => {
+        assert.equal(validateGenerateInput({ ...valid, person: { data: 'AAAA', mimeType: 'text/html' } }).length, 1);
+        assert.equal(validateGenerateInput({ ...valid, references: Array(9).fill(image) }).length, 1);
+        assert.equal(validateGenerateInput({ ...valid, instructions: 'x'.repeat(20_001) }).length, 1);
+    });
+
+    it('prefixes problems with the settings', () => {
+        const problems = validateGenerateInput({ ...valid, settings: { ...DEFAULT_GENERATION_SETTINGS, temperature: 5 } });
+        assert.equal(problems.length, 1);
+        assert.match(problems[0], /^settings: Temperature/);
+    });
+});
+
+const listen = async (server: Server): Promise<string> => {
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: Server) => new Promise<void>((resolve) => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+});
+
+describe('API server against the fake upstream', () => {
+    const upstream = createFakeUpstream();
+    const servers: Server[] = [];
+    const saved = { API_KEY: process.env.API_KEY, GEMINI_BASE_URL: process.env.GEMINI_BASE_URL };
+
+    const start = (options: Partial<ServerOptions> = {}) => {
+        const server = createApiServer({
+            provider: createGeminiProvider(),
+            rateLimit: { max: 10, windowMs: 60_000 },
+            maxBodyBytes: 64 * 1024,
+            ...options,
+        });
+        servers.push(server);
+        return listen(server);
+    };
+
+    const postEdit = (baseUrl: string, body: unknown) => fetch(`${baseUrl}/api/edit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    before(async () => {
+        process.env.API_KEY = 'fake';
+        process.env.GEMINI_BASE_URL = await listen(upstream);
+    });
+
+    after(async () => {
+        await Promise.all([upstream, ...servers].map(close));
+        for (const [key, value] of Object.entries(saved)) {
+            if (value === undefined) delete process.env[key];
+            else process.env[key] = value;
+        }
+    });
+
+    it('reports its provider on /api/health', async () => {
+        const response = await fetch(`${await start()}/api/health`);
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { ok: true, provider: 'gemini' });
+    });
+
+    it('answers /api/edit with the generated image', async () => {
+        const response = await postEdit(await start(), valid);
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { image: 'data:image/png;base64,AAAA' });
+    });
+
+    it('answers 413 for a body over the limit', async () => {
+        const response = await postEdit(await start({ maxBodyBytes: 1024 }), { ...valid, instructions: 'x'.repeat(2048) });
+        assert.equal(response.status, 413);
+        assert.equal((await response.json()).error.kind, 'invalidRequest');
+    });
+
+    it('answers 429 with Retry-After once a client is over the limit', async () => {
+        const baseUrl = await start({ rateLimit: { max: 1, windowMs: 30_000 } });
+        assert.equal((await postEdit(baseUrl, valid)).status, 200);
+        const response = await postEdit(baseUrl, valid);
+        assert.equal(response.status, 429);
+        assert.equal(response.headers.get('Retry-After'), '30');
+        assert.equal((await response.json()).error.kind, 'quota');
+    });
+});
@@ -0,0 +1,211 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { GenerateImageInput, ImageProvider } from '../services/imageProvider';
+import { classifyError, GenerationError, type GenerationErrorKind } from '../services/errors';
+import { withRetry } from '../services/retry';
+import { validateGenerationSettings } from '../services/generationSettings';
+import { isInlineImage, isRecord } from '../services/editRequest';
+import { MAX_USER_TEXT_LENGTH } from '../constants';
+import { RateLimiter, type RateLimitOptions } from './rateLimiter';
+
+export interface ServerOptions {
+    provider: ImageProvider;
+    rateLimit: RateLimitOptions;
+    /** Largest accepted request body, in bytes. */
+    maxBodyBytes: number;
+    /** Use the first X-Forwarded-For address as the client id (behind a trusted proxy). */
+    trustProxy?: boolean;
+    /** Upper bound on a single upstream call. */
+    timeoutMs?: number;
+}
+
+const MAX_REFERENCES = 8;
+const MAX_INSTRUCTIONS_LENGTH = 20_000;
+const MAX_TRANSLATION_TEXTS = 32;
+
+const STATUS_BY_KIND: Record<GenerationErrorKind, number> = {
+    invalidRequest: 400,
+    quota: 429,
+    safety: 422,
+    textOnly: 422,
+    noImage: 502,
+    auth: 502,
+    network: 502,
+    server: 502,
+    timeout: 504,
+    cancelled: 499,
+    unknown: 500,
+};
+
+class PayloadTooLargeError extends Error {}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: GenerationError, headers?: Record<string, string>): void {
+    sendJson(res, STATUS_BY_KIND[error.kind], {
+        error: { kind: error.kind, message: error.message, detail: error.detail },
+    }, headers);
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const declared = Number(req.headers['content-length']);
+        if (declared > maxBytes) {
+            reject(new PayloadTooLargeError());
+            req.resume();
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const onData = (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                // Stop collecting but keep reading, so the caller can still answer with a 413.
+                req.off('data', onData);
+                req.resume();
+                reject(new PayloadTooLargeError());
+                return;
+            }
+            chunks.push(chunk);
+        };
+        req.on('data', onData);
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/** Checks the shape of a request body; returns the problems found. */
+export function validateGenerateInput(body: unknown): string[] {
+    const errors: string[] = [];
+    if (!isRecord(body)) {
+        return ['Body must be a JSON object.'];
+    }
+    if (!isInlineImage(body.person)) {
+        errors.push('person must be an image with base64 data and an image MIME type.');
+    }
+    if (!Array.isArray(body.references) || body.references.length > MAX_REFERENCES || !body.references.every(isInlineImage)) {
+        errors.push(`references must be an array of at most ${MAX_REFERENCES} images.`);
+    }
+    if (typeof body.instructions !== 'string' || body.instructions.trim() === '' || body.instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+        errors.push(`instructions must be a non-empty string of at most ${MAX_INSTRUCTIONS_LENGTH} characters.`);
+    }
+    if (body.settings !== undefined) {
+        errors.push(...validateGenerationSettings(body.settings).map((problem) => `settings: ${problem}`));
+    }
+    return errors;
+}
+
+/** Checks the body of a translation request; returns the problems found. */
+export function validateTranslateInput(body: unknown): string[] {
+    if (!isRecord(body) || !Array.isArray(body.texts) || body.texts.length === 0 || body.texts.length > MAX_TRANSLATION_TEXTS
+        || !body.texts.every((text: unknown) => typeof text === 'string' && text.length <= MAX_USER_TEXT_LENGTH)) {
+        return [`texts must be an array of 1 to ${MAX_TRANSLATION_TEXTS} strings of at most ${MAX_USER_TEXT_LENGTH} characters.`];
+    }
+    return [];
+}
+
+function clientIdOf(req: IncomingMessage, trustProxy: boolean): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustProxy && typeof forwarded === 'string' && forwarded.trim() !== '') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * The API server. `POST /api/edit` takes the same body the image providers
+ * take (`{ person, references, instructions, settings? }`) and answers `{ image }`;
+ * `POST /api/translate` takes `{ texts }` and answers `{ texts }` in English.
+ * Failures answer `{ error: { kind, message, detail } }`.
+ */
+export function createApiServer(options: ServerOptions): Server {
+    const limiter = new RateLimiter(options.rateLimit);
+    const pruneTimer = setInterval(() => limiter.prune(), options.rateLimit.windowMs);
+    pruneTimer.unref();
+
+    const server = createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        if (req.method === 'GET' && url.pathname === '/api/health') {
+            sendJson(res, 200, { ok: true, provider: options.provider.id });
+            return;
+        }
+        const isTranslate = url.pathname === '/api/translate';
+        if (url.pathname !== '/api/edit' && !isTranslate) {
+            sendJson(res, 404, { error: { kind: 'invalidRequest', message: 'Not found.' } });
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: { kind: 'invalidRequest', message: 'Use POST.' } }, { Allow: 'POST' });
+            return;
+        }
+
+        const limit = limiter.check(clientIdOf(req, !!options.trustProxy));
+        if (!limit.allowed) {
+            const retryAfter = String(Math.ceil(limit.retryAfterMs / 1000));
+            sendError(res, new GenerationError('quota', 'Too many requests. Please wait before trying again.'), { 'Retry-After': retryAfter });
+            return;
+        }
+
+        let input: unknown;
+        try {
+            input = JSON.parse(await readBody(req, options.maxBodyBytes));
+        } catch (e) {
+            if (e instanceof PayloadTooLargeError) {
+                // Once the 413 is out, drop the connection rather than drain the rest of an oversized upload.
+                res.once('finish', () => {
+                    if (!req.complete) req.destroy();
+                });
+                sendJson(res, 413, { error: { kind: 'invalidRequest', message: `Request body exceeds ${options.maxBodyBytes} bytes.` } }, { Connection: 'close' });
+            } else {
+                sendError(res, new GenerationError('invalidRequest', 'Body is not valid JSON.'));
+            }
+            return;
+        }
+
+        const problems = isTranslate ? validateTranslateInput(input) : validateGenerateInput(input);
+        if (problems.length > 0) {
+            sendError(res, new GenerationError('invalidRequest', problems.join(' ')));
+            return;
+        }
+        const translateText = options.provider.translateText?.bind(options.provider);
+        if (isTranslate && !translateText) {
+            sendError(res, new GenerationError('invalidRequest', `The "${options.provider.id}" provider cannot translate.`));
+            return;
+        }
+
+        // Stop working on the upstream call if the browser goes away.
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+        const signal = options.timeoutMs
+            ? AbortSignal.any([controller.signal, AbortSignal.timeout(options.timeoutMs)])
+            : controller.signal;
+
+        try {
+            // The body has passed validation, so it has the shape of the route's input.
+            if (isTranslate) {
+                const { texts: source } = input as { texts: string[] };
+                const texts = await withRetry(() => translateText!(source, { signal }), undefined, signal);
+                sendJson(res, 200, { texts });
+                return;
+            }
+            const { person, references, instructions, settings } = input as GenerateImageInput;
+            const request: GenerateImageInput = { person, references, instructions, settings };
+            const image = await withRetry(() => options.provider.generateImage(request, { signal }), undefined, signal);
+            sendJson(res, 200, { image });
+        } catch (e) {
+            const error = classifyError(e);
+            if (!controller.signal.aborted) {
+                console.error(`${isTranslate ? 'Translation' : 'Generation'} failed (${error.kind}):`, e);
+                sendError(res, error);
+            }
+        }
+    });
+
+    server.on('close', () => clearInterval(pruneTimer));
+    return server;
+}
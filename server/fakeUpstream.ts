@@ -0,0 +1,56 @@
+import { createServer, type Server } from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+/**
+ * A stand-in for the Gemini REST API, for exercising the server without a key
+ * or network. Start it, then run the server with
+ * `GEMINI_BASE_URL=http://localhost:8788 API_KEY=fake`.
+ *
+ * Every generateContent call answers with the first image in the request. An
+ * instruction containing [text-only], [blocked] or [rate-limit] triggers the
+ * matching failure instead.
+ */
+export const createFakeUpstream = (): Server => createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.method !== 'POST' || !req.url?.includes(':generateContent')) {
+            send(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+            return;
+        }
+
+        let body: { contents?: Array<{ parts?: Array<{ text?: unknown; inlineData?: unknown }> }> };
+        try {
+            body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        } catch {
+            send(400, { error: { code: 400, message: 'Invalid JSON', status: 'INVALID_ARGUMENT' } });
+            return;
+        }
+        const parts = body?.contents?.[0]?.parts ?? [];
+        const text = parts.map((part) => part.text).find((value): value is string => typeof value === 'string') ?? '';
+        const image = parts.find((part) => part.inlineData)?.inlineData;
+
+        if (text.includes('[rate-limit]')) {
+            send(429, { error: { code: 429, message: 'Resource has been exhausted (e.g. check quota).', status: 'RESOURCE_EXHAUSTED' } });
+        } else if (text.includes('[blocked]')) {
+            send(200, { candidates: [{ finishReason: 'IMAGE_SAFETY', content: { parts: [] } }] });
+        } else if (text.includes('[text-only]') || !image) {
+            send(200, { candidates: [{ finishReason: 'STOP', content: { role: 'model', parts: [{ text: 'I cannot edit this image.' }] } }] });
+        } else {
+            send(200, { candidates: [{ finishReason: 'STOP', content: { role: 'model', parts: [{ inlineData: image }] } }] });
+        }
+    });
+});
+
+// Listen only when run directly; tests start their own on a free port.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.FAKE_UPSTREAM_PORT) || 8788;
+    createFakeUpstream().listen(port, () => {
+        console.log(`Fake Gemini upstream listening on http://localhost:${port}`);
+    });
+}
@@ -0,0 +1,34 @@
+import { createApiServer } from './app';
+import { getImageProvider } from '../services/imageProvider';
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No .env.local; rely on the environment.
+}
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+    process.env.API_KEY = process.env.GEMINI_API_KEY;
+}
+
+const numberFromEnv = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const port = numberFromEnv('SERVER_PORT', 8787);
+const provider = getImageProvider();
+
+const server = createApiServer({
+    provider,
+    rateLimit: {
+        max: numberFromEnv('RATE_LIMIT_MAX', 10),
+        windowMs: numberFromEnv('RATE_LIMIT_WINDOW_MS', 60_000),
+    },
+    maxBodyBytes: numberFromEnv('MAX_BODY_BYTES', 20 * 1024 * 1024),
+    trustProxy: process.env.TRUST_PROXY === '1',
+    timeoutMs: numberFromEnv('UPSTREAM_TIMEOUT_MS', 120_000),
+});
+
+server.listen(port, () => {
+    console.log(`API server listening on http://localhost:${port} using the "${provider.id}" provider`);
+});
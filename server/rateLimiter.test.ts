@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter } from './rateLimiter';
+
+describe('RateLimiter', () => {
+    const setup = () => {
+        let now = 0;
+        const limiter = new RateLimiter({ max: 2, windowMs: 1000 }, () => now);
+        return { limiter, advance: (ms: number) => (now += ms) };
+    };
+
+    it('allows up to max requests per window and says when to retry', () => {
+        const { limiter, advance } = setup();
+        assert.equal(limiter.check('a').allowed, true);
+        advance(300);
+        assert.equal(limiter.check('a').allowed, true);
+        advance(100);
+        assert.deepEqual(limiter.check('a'), { allowed: false, retryAfterMs: 600 });
+    });
+
+    it('slides the window instead of resetting it', () => {
+        const { limiter, advance } = setup();
+        limiter.check('a');
+        advance(600);
+        limiter.check('a');
+        advance(401);
+        assert.equal(limiter.check('a').allowed, true);
+        assert.equal(limiter.check('a').allowed, false);
+    });
+
+    it('counts clients separately', () => {
+        const { limiter } = setup();
+        limiter.check('a');
+        limiter.check('a');
+        assert.equal(limiter.check('a').allowed, false);
+        assert.equal(limiter.check('b').allowed, true);
+    });
+
+    it('forgets clients once their requests leave the window', () => {
+        const { limiter, advance } = setup();
+        limiter.check('a');
+        limiter.check('a');
+        advance(1000);
+        limiter.prune();
+        assert.equal(limiter.check('a').allowed, true);
+    });
+});
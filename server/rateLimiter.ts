@@ -0,0 +1,45 @@
+export interface RateLimitOptions {
+    /** Requests allowed per client within one window. */
+    max: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Milliseconds until the client may retry when not allowed. */
+    retryAfterMs: number;
+}
+
+/**
+ * Sliding-window limiter keyed by client id. State is in memory, which is
+ * enough for a single server process.
+ */
+export class RateLimiter {
+    private readonly hits = new Map<string, number[]>();
+
+    constructor(private readonly options: RateLimitOptions, private readonly now: () => number = Date.now) {}
+
+    check(clientId: string): RateLimitResult {
+        const now = this.now();
+        const windowStart = now - this.options.windowMs;
+        const recent = (this.hits.get(clientId) ?? []).filter((time) => time > windowStart);
+
+        if (recent.length >= this.options.max) {
+            this.hits.set(clientId, recent);
+            return { allowed: false, retryAfterMs: recent[0] + this.options.windowMs - now };
+        }
+        recent.push(now);
+        this.hits.set(clientId, recent);
+        return { allowed: true, retryAfterMs: 0 };
+    }
+
+    /** Drops clients with no requests in the current window. */
+    prune(): void {
+        const windowStart = this.now() - this.options.windowMs;
+        for (const [clientId, times] of this.hits) {
+            if (times.every((time) => time <= windowStart)) {
+                this.hits.delete(clientId);
+            }
+        }
+    }
+}
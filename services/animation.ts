@@ -0,0 +1,98 @@
+/**
+ * Turns the keyframes of a pose sequence into an animation file. Frames are
+ * drawn onto one canvas sized from the first frame (letterboxed if the model
+ * returned another shape), then encoded as a GIF or recorded as a WebM video.
+ */
+
+import { loadImageElement } from './imageUtils';
+import { encodeGif } from './gif';
+
+export interface AnimationFrame {
+    image: string;
+    durationMs: number;
+}
+
+async function prepareCanvas(frames: AnimationFrame[], maxSize: number) {
+    if (frames.length === 0) {
+        throw new Error("Generate at least one frame first.");
+    }
+    const images = await Promise.all(frames.map((frame) => loadImageElement(frame.image)));
+    const first = images[0];
+    const scale = Math.min(1, maxSize / Math.max(first.naturalWidth, first.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(first.naturalWidth * scale);
+    canvas.height = Math.round(first.naturalHeight * scale);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error("Could not create a canvas context.");
+    }
+    const draw = (index: number) => {
+        const image = images[index];
+        const fit = Math.min(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight);
+        const width = image.naturalWidth * fit;
+        const height = image.naturalHeight * fit;
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    };
+    return { canvas, ctx, draw };
+}
+
+/** Encodes the frames as a looping GIF whose longest side is at most `maxSize`. */
+export async function createGif(frames: AnimationFrame[], maxSize: number): Promise<Blob> {
+    const { canvas, ctx, draw } = await prepareCanvas(frames, maxSize);
+    const gifFrames = frames.map((frame, i) => {
+        draw(i);
+        return { pixels: ctx.getImageData(0, 0, canvas.width, canvas.height).data, delayMs: frame.durationMs };
+    });
+    return new Blob([encodeGif(gifFrames, canvas.width, canvas.height)], { type: 'image/gif' });
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** The WebM type this browser can record, if any. */
+export const webmMimeType = (): string | undefined =>
+    typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Records the frames as a WebM video. MediaRecorder works in real time, so
+ * this takes as long as the animation does to play once.
+ */
+export async function recordWebm(frames: AnimationFrame[], maxSize: number): Promise<Blob> {
+    const mimeType = webmMimeType();
+    if (!mimeType) {
+        throw new Error("This browser cannot record WebM video. Download a GIF instead.");
+    }
+    const { canvas, draw } = await prepareCanvas(frames, maxSize);
+    // A frame rate of 0 captures only when asked, so each keyframe lasts exactly its duration.
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve();
+    });
+
+    draw(0);
+    recorder.start();
+    for (let i = 0; i < frames.length; i++) {
+        draw(i);
+        track.requestFrame();
+        await wait(frames[i].durationMs);
+    }
+    // Capture the last frame once more so the video runs to the end of its duration.
+    track.requestFrame();
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach((t) => t.stop());
+    return new Blob(chunks, { type: 'video/webm' });
+}
+
+/** A file name like `pose-sequence-2024-05-01.gif`. */
+export const animationFileName = (extension: 'gif' | 'webm', date: Date = new Date()): string =>
+    `pose-sequence-${date.toISOString().slice(0, 10)}.${extension}`;
@@ -0,0 +1,48 @@
+const DB_NAME = 'pose-changer';
+const DB_VERSION = 3;
+
+export type StoreName = 'history' | 'presets' | 'autosave';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/** Creates whichever stores are missing, so every older version upgrades in one step. */
+function upgrade(db: IDBDatabase) {
+    if (!db.objectStoreNames.contains('history')) {
+        db.createObjectStore('history', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains('presets')) {
+        db.createObjectStore('presets', { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    }
+    if (!db.objectStoreNames.contains('autosave')) {
+        db.createObjectStore('autosave');
+    }
+}
+
+function openDb(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error("IndexedDB is not available in this environment."));
+    }
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => upgrade(request.result);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    return promisify(run(db.transaction(name, mode).objectStore(name)));
+}
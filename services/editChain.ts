@@ -0,0 +1,85 @@
+import type { ChainNode, EditChain, EditRequest, ImageFile } from '../types';
+
+/**
+ * Pure helpers for the edit chain. Every function returns a new chain so the
+ * result can be stored directly in React state.
+ */
+
+const newNode = (image: ImageFile, parentId: string | null, request?: EditRequest): ChainNode => ({
+    id: crypto.randomUUID(),
+    parentId,
+    image,
+    request,
+    createdAt: Date.now(),
+});
+
+export function createChain(image: ImageFile): EditChain {
+    const root = newNode(image, null);
+    return { nodes: { [root.id]: root }, rootId: root.id, currentId: root.id };
+}
+
+export const currentNode = (chain: EditChain): ChainNode => chain.nodes[chain.currentId];
+
+/** Adds a step after the current node. From an earlier step this starts a new branch. */
+export function appendStep(chain: EditChain, image: ImageFile, request?: EditRequest): EditChain {
+    const node = newNode(image, chain.currentId, request);
+    const parent = { ...chain.nodes[chain.currentId], lastChildId: node.id };
+    return {
+        ...chain,
+        nodes: { ...chain.nodes, [parent.id]: parent, [node.id]: node },
+        currentId: node.id,
+    };
+}
+
+/** Moves to any node, pointing redo along the path from the root so it replays toward it. */
+export function goTo(chain: EditChain, id: string): EditChain {
+    if (!chain.nodes[id]) return chain;
+    const nodes = { ...chain.nodes };
+    let child = nodes[id];
+    while (child.parentId) {
+        const parent = nodes[child.parentId];
+        if (parent.lastChildId !== child.id) {
+            nodes[parent.id] = { ...parent, lastChildId: child.id };
+        }
+        child = nodes[child.parentId];
+    }
+    return { ...chain, nodes, currentId: id };
+}
+
+export const canUndo = (chain: EditChain): boolean => currentNode(chain).parentId !== null;
+
+export const canRedo = (chain: EditChain): boolean => !!currentNode(chain).lastChildId;
+
+export function undo(chain: EditChain): EditChain {
+    const parentId = currentNode(chain).parentId;
+    return parentId ? { ...chain, currentId: parentId } : chain;
+}
+
+export function redo(chain: EditChain): EditChain {
+    const childId = currentNode(chain).lastChildId;
+    return childId ? { ...chain, currentId: childId } : chain;
+}
+
+export interface ChainRow {
+    node: ChainNode;
+    depth: number;
+}
+
+/** Flattens the tree depth-first, oldest branch first, for display. */
+export function flattenChain(chain: EditChain): ChainRow[] {
+    const children: Record<string, ChainNode[]> = {};
+    for (const node of Object.values(chain.nodes)) {
+        if (node.parentId) {
+            (children[node.parentId] ??= []).push(node);
+        }
+    }
+    const rows: ChainRow[] = [];
+    const visit = (node: ChainNode, depth: number) => {
+        rows.push({ node, depth });
+        const kids = (children[node.id] ?? []).sort((a, b) => a.createdAt - b.createdAt);
+        // Only indent when the path actually branches.
+        kids.forEach((kid) => visit(kid, kids.length > 1 ? depth + 1 : depth));
+    };
+    visit(chain.nodes[chain.rootId], 0);
+    return rows;
+}
@@ -0,0 +1,282 @@
+import type { EditRequest, EditSection, GarmentSlot, ImageFile, Outfit, PreservationFlags, Subject } from '../types';
+import type { InlineImage } from './imageProvider';
+import { subjectText, validateSubjects } from './subjects';
+import { GARMENT_LABELS, GARMENT_SLOTS } from './outfit';
+import { MAX_USER_TEXT_LENGTH } from '../constants';
+
+export const EDIT_REQUEST_VERSION = 1;
+
+const SECTION_KEYS = ['pose', 'clothing', 'background'] as const;
+export type SectionKey = typeof SECTION_KEYS[number];
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,(.+)$/;
+
+/** Splits a data URL into the base64 payload and MIME type sent to providers. */
+export function toInlineImage(image: ImageFile): InlineImage {
+    const match = DATA_URL_PATTERN.exec(image.dataUrl);
+    if (!match) {
+        throw new Error("Invalid image data URL.");
+    }
+    return { data: match[2], mimeType: image.mimeType || match[1] };
+}
+
+/** Narrows untrusted JSON to an object whose fields can be read. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** True for an image stored as an ImageFile with an image data URL. */
+export const isImageFile = (value: unknown): value is ImageFile =>
+    isRecord(value) && typeof value.dataUrl === 'string' && value.dataUrl.startsWith('data:image/') && typeof value.mimeType === 'string';
+
+/** True for an image as providers take it: base64 data and an image MIME type. */
+export const isInlineImage = (value: unknown): value is InlineImage =>
+    isRecord(value) && typeof value.data === 'string' && value.data.length > 0
+    && typeof value.mimeType === 'string' && value.mimeType.startsWith('image/');
+
+/** Reads an optional section from untrusted JSON, recording a problem when it is malformed. */
+export function parseSection(value: unknown, label: string, errors: string[]): EditSection | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)
+        || (value.text !== undefined && typeof value.text !== 'string')
+        || (value.image !== undefined && !isImageFile(value.image))) {
+        errors.push(`${label} must have an optional text and an optional image data URL.`);
+        return undefined;
+    }
+    return { text: value.text as string | undefined, image: value.image as ImageFile | undefined };
+}
+
+/** Reads an optional outfit from untrusted JSON, recording a problem for each malformed garment. */
+export function parseOutfit(value: unknown, label: string, errors: string[]): Outfit | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        errors.push(`${label} outfit must be an object.`);
+        return undefined;
+    }
+    const outfit: Outfit = {};
+    for (const slot of GARMENT_SLOTS) {
+        const section = parseSection(value[slot], `${label} ${slot}`, errors);
+        if (section) outfit[slot] = section;
+    }
+    return outfit;
+}
+
+/** Wraps a data URL (e.g. a generated result) as an ImageFile usable as an input. */
+export function imageFileFromDataUrl(dataUrl: string): ImageFile {
+    const match = DATA_URL_PATTERN.exec(dataUrl);
+    if (!match) {
+        throw new Error("Invalid image data URL.");
+    }
+    return { dataUrl, mimeType: match[1] };
+}
+
+export function sectionText(section: EditSection | undefined): string {
+    return section?.text?.trim() ?? '';
+}
+
+export function sectionHasContent(section: EditSection | undefined): boolean {
+    return !!section?.image || sectionText(section) !== '';
+}
+
+/** The garment slots that have an image or text, in slot order. */
+export function filledGarments(outfit: Outfit | undefined): Array<[GarmentSlot, EditSection]> {
+    return GARMENT_SLOTS.flatMap((slot): Array<[GarmentSlot, EditSection]> => {
+        const section = outfit?.[slot];
+        return section && sectionHasContent(section) ? [[slot, section]] : [];
+    });
+}
+
+/** A short human-readable summary, e.g. "Pose: jumping · Clothing image". */
+export function describeEditRequest(request: EditRequest): string {
+    const labels: Record<SectionKey, string> = { pose: 'Pose', clothing: 'Clothing', background: 'Background' };
+    const parts = SECTION_KEYS.filter((key) => sectionHasContent(request[key])).map((key) => {
+        const text = sectionText(request[key]);
+        if (text) return `${labels[key]}: ${text}`;
+        return `${labels[key]} image`;
+    });
+    for (const [slot, section] of filledGarments(request.outfit)) {
+        parts.push(sectionText(section) ? `${GARMENT_LABELS[slot]}: ${sectionText(section)}` : `${GARMENT_LABELS[slot]} image`);
+    }
+    for (const subject of request.subjects ?? []) {
+        parts.push(subjectText(subject) ? `${subject.label}: ${subjectText(subject)}` : subject.label);
+    }
+    if (request.mask) parts.push('Masked region');
+    return parts.join(' · ') || 'No changes';
+}
+
+export function hasRequestedChanges(request: EditRequest): boolean {
+    return SECTION_KEYS.some((key) => sectionHasContent(request[key]))
+        || filledGarments(request.outfit).length > 0
+        || (request.subjects ?? []).some((subject) => subjectText(subject) !== '');
+}
+
+const validateImage = (image: unknown, label: string, errors: string[]) => {
+    if (!image || typeof image !== 'object') {
+        errors.push(`${label} is missing.`);
+        return;
+    }
+    const { dataUrl, mimeType } = image as Partial<ImageFile>;
+    if (typeof dataUrl !== 'string' || !DATA_URL_PATTERN.test(dataUrl)) {
+        errors.push(`${label} must be a base64 data URL.`);
+    }
+    if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) {
+        errors.push(`${label} must have an image MIME type.`);
+    }
+};
+
+const validateSection = (section: unknown, name: string, errors: string[]) => {
+    if (section === undefined) return;
+    if (!section || typeof section !== 'object') {
+        errors.push(`The ${name} section must be an object.`);
+        return;
+    }
+    const { image, text } = section as EditSection;
+    if (image !== undefined) {
+        validateImage(image, `The ${name} image`, errors);
+    }
+    if (text !== undefined && typeof text !== 'string') {
+        errors.push(`The ${name} text must be a string.`);
+    } else if (text && text.trim().length > MAX_USER_TEXT_LENGTH) {
+        errors.push(`The ${name} text is longer than ${MAX_USER_TEXT_LENGTH} characters.`);
+    }
+};
+
+/** Returns a list of problems with the request; an empty list means it can be sent. */
+export function validateEditRequest(request: EditRequest): string[] {
+    const errors: string[] = [];
+    validateImage(request.person, 'Person image', errors);
+
+    for (const key of SECTION_KEYS) {
+        validateSection(request[key], key, errors);
+    }
+    if (request.outfit !== undefined) {
+        if (!request.outfit || typeof request.outfit !== 'object') {
+            errors.push("The outfit must be an object.");
+        } else {
+            for (const slot of GARMENT_SLOTS) {
+                validateSection(request.outfit[slot], `${slot} garment`, errors);
+            }
+        }
+    }
+
+    if (request.mask !== undefined) {
+        validateImage(request.mask, 'The mask', errors);
+    }
+    if (request.subjects !== undefined) {
+        validateSubjects(request.subjects, errors);
+    }
+
+    if (!request.preserve || typeof request.preserve.identity !== 'boolean' || typeof request.preserve.bodyShape !== 'boolean') {
+        errors.push("Preservation flags must be booleans.");
+    }
+
+    if (errors.length === 0 && !hasRequestedChanges(request)) {
+        errors.push("Please describe what you want to change (pose, clothing, or background).");
+    }
+    return errors;
+}
+
+const normalizeSection = (section: EditSection): EditSection => {
+    const next: EditSection = {};
+    if (section.image) next.image = { dataUrl: section.image.dataUrl, mimeType: section.image.mimeType };
+    if (sectionText(section)) next.text = sectionText(section);
+    return next;
+};
+
+/** Drops empty sections and surrounding whitespace so equal requests serialize identically. */
+export function normalizeEditRequest(request: EditRequest): EditRequest {
+    const normalized: EditRequest = {
+        person: { dataUrl: request.person.dataUrl, mimeType: request.person.mimeType },
+        preserve: { identity: request.preserve.identity, bodyShape: request.preserve.bodyShape },
+    };
+    for (const key of SECTION_KEYS) {
+        const section = request[key];
+        if (sectionHasContent(section)) normalized[key] = normalizeSection(section!);
+    }
+    const garments = filledGarments(request.outfit);
+    if (garments.length > 0) {
+        normalized.outfit = Object.fromEntries(garments.map(([slot, section]) => [slot, normalizeSection(section)]));
+    }
+    if (request.mask) {
+        normalized.mask = { dataUrl: request.mask.dataUrl, mimeType: request.mask.mimeType };
+    }
+    if (request.subjects?.length) {
+        normalized.subjects = request.subjects.map(({ id, label, box, pose, clothing }) => ({
+            id,
+            label: label.trim(),
+            box: { x: box.x, y: box.y, width: box.width, height: box.height },
+            ...(pose?.trim() ? { pose: pose.trim() } : {}),
+            ...(clothing?.trim() ? { clothing: clothing.trim() } : {}),
+        }));
+    }
+    return normalized;
+}
+
+export function serializeEditRequest(request: EditRequest): string {
+    return JSON.stringify({ version: EDIT_REQUEST_VERSION, ...normalizeEditRequest(request) });
+}
+
+/** Reads the subjects of a group photo from untrusted JSON; their boxes and text are checked by validateSubjects. */
+function parseSubjects(value: unknown, errors: string[]): Subject[] | undefined {
+    if (value === undefined) return undefined;
+    const before = errors.length;
+    validateSubjects(value, errors);
+    if (!Array.isArray(value)) return undefined;
+    value.forEach((subject, index) => {
+        if (!isRecord(subject) || typeof subject.id !== 'string') errors.push(`Subject ${index + 1} needs an id.`);
+    });
+    if (errors.length > before) return undefined;
+    // validateSubjects has checked the label, the box and the text of each subject.
+    return value.map((subject: Record<string, unknown>) => {
+        const box = subject.box as Record<string, number>;
+        return {
+            id: subject.id as string,
+            label: subject.label as string,
+            box: { x: box.x, y: box.y, width: box.width, height: box.height },
+            ...(typeof subject.pose === 'string' ? { pose: subject.pose } : {}),
+            ...(typeof subject.clothing === 'string' ? { clothing: subject.clothing } : {}),
+        };
+    });
+}
+
+const parsePreserve = (value: unknown): PreservationFlags | undefined =>
+    isRecord(value) && typeof value.identity === 'boolean' && typeof value.bodyShape === 'boolean'
+        ? { identity: value.identity, bodyShape: value.bodyShape }
+        : undefined;
+
+/** Parses and validates a serialized request, throwing with every problem found. */
+export function parseEditRequest(json: string): EditRequest {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error("Edit request is not valid JSON.");
+    }
+    if (!isRecord(raw)) {
+        throw new Error("Edit request must be a JSON object.");
+    }
+    if (raw.version !== EDIT_REQUEST_VERSION) {
+        throw new Error(`Unsupported edit request version: ${raw.version}.`);
+    }
+    const errors: string[] = [];
+    const person = isImageFile(raw.person) ? raw.person : undefined;
+    if (!person) errors.push("Person image must be an image data URL.");
+    const mask = isImageFile(raw.mask) ? raw.mask : undefined;
+    if (raw.mask !== undefined && !mask) errors.push("The mask must be an image data URL.");
+    const preserve = parsePreserve(raw.preserve);
+    if (!preserve) errors.push("Preservation flags must be booleans.");
+    const request: Partial<EditRequest> = { person, preserve, mask };
+    for (const key of SECTION_KEYS) {
+        request[key] = parseSection(raw[key], `The ${key} section`, errors);
+    }
+    request.outfit = parseOutfit(raw.outfit, 'The', errors);
+    request.subjects = parseSubjects(raw.subjects, errors);
+
+    if (errors.length === 0 && person && preserve) {
+        // Lengths, data URLs and whether anything changes are checked as for any request.
+        errors.push(...validateEditRequest({ ...request, person, preserve }));
+    }
+    if (errors.length > 0 || !person || !preserve) {
+        throw new Error(`Invalid edit request: ${errors.join(' ')}`);
+    }
+    return normalizeEditRequest({ ...request, person, preserve });
+}
@@ -0,0 +1,120 @@
+export type GenerationErrorKind =
+    | 'auth'
+    | 'quota'
+    | 'safety'
+    | 'textOnly'
+    | 'noImage'
+    | 'network'
+    | 'timeout'
+    | 'server'
+    | 'invalidRequest'
+    | 'cancelled'
+    | 'unknown';
+
+const RETRYABLE_KINDS: GenerationErrorKind[] = ['quota', 'network', 'timeout', 'server'];
+
+/** A generation failure with a kind the UI and retry logic can act on. */
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    /** Extra detail such as the safety block reason or the model's text reply. */
+    readonly detail?: string;
+
+    constructor(kind: GenerationErrorKind, message: string, options: { detail?: string; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.detail = options.detail;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+export const ERROR_GUIDANCE: Record<GenerationErrorKind, { title: string; guidance: string }> = {
+    auth: {
+        title: 'API Key Problem',
+        guidance: 'The API key is missing or was rejected. Check GEMINI_API_KEY in .env.local, or set IMAGE_PROVIDER=mock to work offline.',
+    },
+    quota: {
+        title: 'Rate Limit Reached',
+        guidance: 'Too many requests or the quota is used up. Wait a minute before retrying, or generate fewer variants at once.',
+    },
+    safety: {
+        title: 'Blocked by Safety Filters',
+        guidance: 'The request or result was blocked. Rephrase the instructions or use different reference images.',
+    },
+    textOnly: {
+        title: 'No Image Returned',
+        guidance: 'The model answered with text instead of an image. Its reply is shown above; adjust the instructions accordingly.',
+    },
+    noImage: {
+        title: 'No Image Returned',
+        guidance: 'The model did not produce an image. Retrying often helps; otherwise simplify the requested changes.',
+    },
+    network: {
+        title: 'Network Error',
+        guidance: 'The service could not be reached. Check your connection and retry.',
+    },
+    timeout: {
+        title: 'Request Timed Out',
+        guidance: 'The model took too long to respond. Retry, or use smaller images.',
+    },
+    server: {
+        title: 'Service Unavailable',
+        guidance: 'The image service had a temporary problem. Retry in a moment.',
+    },
+    cancelled: {
+        title: 'Generation Cancelled',
+        guidance: 'The request was cancelled before it finished.',
+    },
+    invalidRequest: {
+        title: 'Invalid Request',
+        guidance: 'The request was rejected as malformed. Check the images are valid PNG, JPG or WEBP files.',
+    },
+    unknown: {
+        title: 'Generation Failed',
+        guidance: 'Something unexpected went wrong. Retry, and check the browser console if it keeps happening.',
+    },
+};
+
+const statusOf = (error: unknown): number | undefined => {
+    const status = (error as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+};
+
+/** Maps any thrown value onto a GenerationError. */
+export function classifyError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const name = error instanceof Error ? error.name : '';
+    const status = statusOf(error);
+    const options = { cause: error };
+
+    if (name === 'TimeoutError') {
+        return new GenerationError('timeout', 'The request timed out.', options);
+    }
+    if (name === 'AbortError') {
+        return new GenerationError('cancelled', 'The request was cancelled.', options);
+    }
+    if (status === 401 || status === 403 || /api[_ ]?key/i.test(message)) {
+        return new GenerationError('auth', 'The API key is missing or invalid.', options);
+    }
+    if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+        return new GenerationError('quota', 'The rate limit or quota was exceeded.', options);
+    }
+    if (status === 408 || status === 504 || /timed? ?out|deadline/i.test(message)) {
+        return new GenerationError('timeout', 'The request timed out.', options);
+    }
+    if (status !== undefined && status >= 500) {
+        return new GenerationError('server', `The image service returned an error (HTTP ${status}).`, options);
+    }
+    if (status === 400 || status === 413) {
+        return new GenerationError('invalidRequest', 'The request was rejected as invalid.', { ...options, detail: message });
+    }
+    if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+        return new GenerationError('network', 'The image service could not be reached.', options);
+    }
+    return new GenerationError('unknown', 'The AI model failed to process the request.', { ...options, detail: message });
+}
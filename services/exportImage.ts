@@ -0,0 +1,251 @@
+import type { EditRequest, GarmentSlot, GenerationSettings, SubjectBox } from '../types';
+import { extensionForMimeType, loadImageElement } from './imageUtils';
+import { filledGarments, sectionHasContent, sectionText } from './editRequest';
+import { crc32 } from './zip';
+import { DEFAULT_MODEL } from './generationSettings';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+/** Where the provenance record goes: nowhere, inside the PNG, or a JSON file next to the image. */
+export type MetadataMode = 'none' | 'embedded' | 'sidecar';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    /** 0–1; ignored for PNG. */
+    quality: number;
+    /** Longest side in pixels, or null to keep the generated size. */
+    longestSide: number | null;
+    filenameTemplate: string;
+    metadata: MetadataMode;
+}
+
+/** How an exported image was made. Written as PNG text chunks or a JSON sidecar. */
+export interface ProvenanceRecord {
+    generator: string;
+    aiGenerated: true;
+    digitalSourceType: string;
+    provider: string;
+    exportedAt: string;
+    prompt: string;
+    edits: {
+        pose?: string;
+        clothing?: string;
+        background?: string;
+        /** Text for each garment of the outfit builder. */
+        outfit?: Partial<Record<GarmentSlot, string>>;
+        /** Per-person edits in a group photo. */
+        subjects?: Array<{ label: string; box: SubjectBox; pose?: string; clothing?: string }>;
+        /** Sections with a reference image; garments appear as `outfit.<slot>`. */
+        referenceImages: string[];
+        masked: boolean;
+        preserveIdentity: boolean;
+        preserveBodyShape: boolean;
+    };
+    /** Model and generation settings, when the result recorded them. */
+    settings?: GenerationSettings;
+    output: { format: ExportFormat; width: number; height: number };
+}
+
+export interface ExportedFile {
+    name: string;
+    blob: Blob;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+    'image/png': 'PNG',
+    'image/jpeg': 'JPEG',
+    'image/webp': 'WebP',
+};
+
+export const DEFAULT_FILENAME_TEMPLATE = 'pose-{date}-{time}-{index}';
+
+export const FILENAME_VARIABLES: Record<string, string> = {
+    date: 'Export date, YYYY-MM-DD',
+    time: 'Export time, HHMMSS',
+    index: 'Variant number',
+    pose: 'Start of the pose description',
+    width: 'Output width in pixels',
+    height: 'Output height in pixels',
+    model: 'Model that generated the image',
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'image/png',
+    quality: 0.92,
+    longestSide: null,
+    filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+    metadata: 'embedded',
+};
+
+/** IPTC term for media created by a generative model. */
+const AI_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const GENERATOR = 'Pose Changer';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const slug = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+
+/** Fills `{name}` placeholders and strips characters that are not allowed in file names. */
+export function renderFilename(template: string, values: Record<string, string | number>): string {
+    const name = template
+        .replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match))
+        .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-')
+        .trim();
+    return name || 'pose';
+}
+
+export function buildProvenance(
+    request: EditRequest | undefined,
+    prompt: string,
+    provider: string,
+    output: ProvenanceRecord['output'],
+    settings?: GenerationSettings
+): ProvenanceRecord {
+    const garments = filledGarments(request?.outfit);
+    const garmentTexts = garments.filter(([, section]) => sectionText(section) !== '');
+    const subjects = request?.subjects ?? [];
+    return {
+        generator: GENERATOR,
+        aiGenerated: true,
+        digitalSourceType: AI_SOURCE_TYPE,
+        provider,
+        exportedAt: new Date().toISOString(),
+        prompt,
+        edits: {
+            pose: sectionText(request?.pose) || undefined,
+            clothing: sectionText(request?.clothing) || undefined,
+            background: sectionText(request?.background) || undefined,
+            outfit: garmentTexts.length > 0 ? Object.fromEntries(garmentTexts.map(([slot, section]) => [slot, sectionText(section)])) : undefined,
+            subjects: subjects.length > 0
+                ? subjects.map(({ label, box, pose, clothing }) => ({ label, box, pose: pose?.trim() || undefined, clothing: clothing?.trim() || undefined }))
+                : undefined,
+            referenceImages: [
+                ...(['clothing', 'background', 'pose'] as const).filter((key) => !!request?.[key]?.image && sectionHasContent(request[key])),
+                ...garments.filter(([, section]) => !!section.image).map(([slot]) => `outfit.${slot}`),
+            ],
+            masked: !!request?.mask,
+            preserveIdentity: request?.preserve.identity ?? true,
+            preserveBodyShape: request?.preserve.bodyShape ?? true,
+        },
+        settings,
+        output,
+    };
+}
+
+/** Size after scaling the longest side to the target; upscales as well as downscales. */
+export function exportSize(width: number, height: number, longestSide: number | null): { width: number; height: number } {
+    if (!longestSide) return { width, height };
+    const scale = longestSide / Math.max(width, height);
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+const isLatin1 = (text: string) => /^[\u0000-\u00ff]*$/.test(text);
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const typeAndData = new Uint8Array(4 + data.length);
+    typeAndData.set(new TextEncoder().encode(type), 0);
+    typeAndData.set(data, 4);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(typeAndData, 4);
+    view.setUint32(8 + data.length, crc32(typeAndData));
+    return chunk;
+}
+
+/** A tEXt chunk, or an uncompressed iTXt chunk when the value is not Latin-1. */
+function textChunk(keyword: string, value: string): Uint8Array {
+    const encoder = new TextEncoder();
+    if (isLatin1(value)) {
+        const data = new Uint8Array(keyword.length + 1 + value.length);
+        data.set(encoder.encode(keyword), 0);
+        for (let i = 0; i < value.length; i++) data[keyword.length + 1 + i] = value.charCodeAt(i);
+        return pngChunk('tEXt', data);
+    }
+    // keyword\0, compression flag 0, method 0, empty language tag\0, empty translated keyword\0, UTF-8 text.
+    const text = encoder.encode(value);
+    const data = new Uint8Array(keyword.length + 5 + text.length);
+    data.set(encoder.encode(keyword), 0);
+    data.set(text, keyword.length + 5);
+    return pngChunk('iTXt', data);
+}
+
+/** Inserts text chunks into a PNG right after its IHDR chunk. */
+export function addPngText(png: Uint8Array, entries: Record<string, string>): Uint8Array {
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const ihdrEnd = 8 + 12 + view.getUint32(8);
+    const chunks = Object.entries(entries).map(([keyword, value]) => textChunk(keyword, value));
+    const size = chunks.reduce((total, chunk) => total + chunk.length, png.length);
+    const result = new Uint8Array(size);
+    result.set(png.subarray(0, ihdrEnd), 0);
+    let offset = ihdrEnd;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    result.set(png.subarray(ihdrEnd), offset);
+    return result;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image."))), type, quality);
+    });
+
+/**
+ * Re-encodes a generated image with the chosen format and size, and returns
+ * it together with a JSON sidecar when one was requested. Every export is
+ * marked as AI-generated: PNGs carry the marker even without the full record,
+ * and other formats, which cannot hold it, always get the sidecar.
+ */
+export async function exportImage(
+    dataUrl: string,
+    options: ExportOptions,
+    context: { request?: EditRequest; prompt: string; provider: string; index: number; settings?: GenerationSettings }
+): Promise<ExportedFile[]> {
+    const img = await loadImageElement(dataUrl);
+    const size = exportSize(img.naturalWidth, img.naturalHeight, options.longestSide);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.imageSmoothingQuality = 'high';
+    if (options.format === 'image/jpeg') {
+        // JPEG has no alpha; flatten onto white rather than black.
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, size.width, size.height);
+    }
+    ctx.drawImage(img, 0, 0, size.width, size.height);
+
+    let blob = await canvasToBlob(canvas, options.format, options.quality);
+    if (blob.type !== options.format) {
+        throw new Error(`This browser cannot export ${EXPORT_FORMATS[options.format]} images.`);
+    }
+
+    const provenance = buildProvenance(context.request, context.prompt, context.provider, { format: options.format, ...size }, context.settings);
+    if (options.format === 'image/png') {
+        const entries: Record<string, string> = { Software: GENERATOR, DigitalSourceType: AI_SOURCE_TYPE };
+        if (options.metadata === 'embedded') {
+            entries.Description = context.prompt;
+            entries.Comment = JSON.stringify(provenance);
+        }
+        blob = new Blob([addPngText(new Uint8Array(await blob.arrayBuffer()), entries)], { type: 'image/png' });
+    }
+
+    const now = new Date();
+    const base = renderFilename(options.filenameTemplate, {
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+        index: context.index + 1,
+        pose: slug(sectionText(context.request?.pose)) || 'edit',
+        width: size.width,
+        height: size.height,
+        model: context.settings?.model ?? DEFAULT_MODEL,
+    });
+    const files: ExportedFile[] = [{ name: `${base}.${extensionForMimeType(options.format)}`, blob }];
+    if (options.metadata === 'sidecar' || options.format !== 'image/png') {
+        files.push({ name: `${base}.json`, blob: new Blob([JSON.stringify(provenance, null, 2)], { type: 'application/json' }) });
+    }
+    return files;
+}
@@ -0,0 +1,133 @@
+import type { GenerationSettings, SafetyCategory, SafetyThreshold } from '../types';
+import { isRecord } from './editRequest';
+
+export interface ModelOption {
+    id: string;
+    label: string;
+    /** Whether the model accepts a requested output aspect ratio. */
+    supportsAspectRatio: boolean;
+}
+
+export const GENERATION_MODELS: ModelOption[] = [
+    { id: 'gemini-2.5-flash-image-preview', label: 'Gemini 2.5 Flash Image (preview)', supportsAspectRatio: false },
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', supportsAspectRatio: true },
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (preview)', supportsAspectRatio: true },
+];
+
+export const DEFAULT_MODEL = GENERATION_MODELS[0].id;
+
+/** Text model used to translate descriptions when `translatePrompts` is on. */
+export const TRANSLATION_MODEL = 'gemini-2.5-flash';
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = { model: DEFAULT_MODEL, safety: {} };
+
+export const SAFETY_CATEGORIES: Record<SafetyCategory, string> = {
+    harassment: 'Harassment',
+    hateSpeech: 'Hate speech',
+    sexuallyExplicit: 'Sexually explicit',
+    dangerousContent: 'Dangerous content',
+};
+
+export const SAFETY_THRESHOLDS: Record<SafetyThreshold, string> = {
+    blockLowAndAbove: 'Block low and above',
+    blockMediumAndAbove: 'Block medium and above',
+    blockOnlyHigh: 'Block only high',
+    blockNone: 'Block none',
+};
+
+export const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export const TEMPERATURE_RANGE = { min: 0, max: 2 };
+
+export const MAX_SYSTEM_INSTRUCTION_LENGTH = 4_000;
+
+export const findModel = (id: string): ModelOption | undefined => GENERATION_MODELS.find((model) => model.id === id);
+
+/** Returns a list of problems with the settings; an empty list means they can be sent. */
+export function validateGenerationSettings(settings: unknown): string[] {
+    if (!isRecord(settings)) {
+        return ["Generation settings must be an object."];
+    }
+    const errors: string[] = [];
+    if (typeof settings.model !== 'string' || !findModel(settings.model)) {
+        errors.push(`Unknown model "${settings.model}". Expected one of: ${GENERATION_MODELS.map((model) => model.id).join(', ')}.`);
+    }
+    if (settings.temperature !== undefined
+        && (typeof settings.temperature !== 'number' || !(settings.temperature >= TEMPERATURE_RANGE.min && settings.temperature <= TEMPERATURE_RANGE.max))) {
+        errors.push(`Temperature must be between ${TEMPERATURE_RANGE.min} and ${TEMPERATURE_RANGE.max}.`);
+    }
+    if (settings.seed !== undefined && (typeof settings.seed !== 'number' || !Number.isInteger(settings.seed) || settings.seed < 0 || settings.seed > 0x7fffffff)) {
+        errors.push("Seed must be a whole number from 0 to 2147483647.");
+    }
+    if (!isRecord(settings.safety)) {
+        errors.push("Safety settings must be an object.");
+    } else {
+        for (const [category, threshold] of Object.entries(settings.safety)) {
+            if (!(category in SAFETY_CATEGORIES)) errors.push(`Unknown safety category "${category}".`);
+            else if (typeof threshold !== 'string' || !(threshold in SAFETY_THRESHOLDS)) errors.push(`Unknown safety threshold "${threshold}" for ${category}.`);
+        }
+    }
+    if (settings.aspectRatio !== undefined && (typeof settings.aspectRatio !== 'string' || !ASPECT_RATIOS.includes(settings.aspectRatio))) {
+        errors.push(`Aspect ratio must be one of: ${ASPECT_RATIOS.join(', ')}.`);
+    }
+    if (settings.systemInstruction !== undefined
+        && (typeof settings.systemInstruction !== 'string' || settings.systemInstruction.length > MAX_SYSTEM_INSTRUCTION_LENGTH)) {
+        errors.push(`The system instruction must be text of at most ${MAX_SYSTEM_INSTRUCTION_LENGTH} characters.`);
+    }
+    if (settings.translatePrompts !== undefined && typeof settings.translatePrompts !== 'boolean') {
+        errors.push("translatePrompts must be true or false.");
+    }
+    return errors;
+}
+
+/**
+ * The settings as actually sent: options the model does not support and empty
+ * values are dropped, so a recorded result shows only what took effect.
+ */
+export function normalizeGenerationSettings(settings: GenerationSettings): GenerationSettings {
+    const model = findModel(settings.model);
+    const normalized: GenerationSettings = { model: settings.model, safety: { ...settings.safety } };
+    if (settings.temperature !== undefined) normalized.temperature = settings.temperature;
+    if (settings.seed !== undefined) normalized.seed = settings.seed;
+    if (settings.aspectRatio && model?.supportsAspectRatio) normalized.aspectRatio = settings.aspectRatio;
+    if (settings.systemInstruction?.trim()) normalized.systemInstruction = settings.systemInstruction.trim();
+    if (settings.translatePrompts) normalized.translatePrompts = true;
+    return normalized;
+}
+
+/** A one-line summary, e.g. "gemini-2.5-flash-image · temperature 0.7 · seed 42 · 4:5". */
+export function describeGenerationSettings(settings: GenerationSettings): string {
+    const safety = Object.entries(settings.safety).map(([category, threshold]) =>
+        `${SAFETY_CATEGORIES[category as SafetyCategory].toLowerCase()}: ${SAFETY_THRESHOLDS[threshold as SafetyThreshold].toLowerCase()}`);
+    return [
+        settings.model,
+        settings.temperature !== undefined && `temperature ${settings.temperature}`,
+        settings.seed !== undefined && `seed ${settings.seed}`,
+        settings.aspectRatio,
+        ...safety,
+        settings.systemInstruction && 'custom system instruction',
+        settings.translatePrompts && 'translated to English',
+    ]
+        .filter(Boolean)
+        .join(' · ');
+}
+
+const SETTINGS_KEY = 'pose-changer:generation-settings';
+
+/** Reads the saved settings, falling back to the defaults when they are missing or no longer valid. */
+export function loadGenerationSettings(): GenerationSettings {
+    if (typeof localStorage === 'undefined') return DEFAULT_GENERATION_SETTINGS;
+    try {
+        const raw = localStorage.getItem(SETTINGS_KEY);
+        const saved = raw ? { ...DEFAULT_GENERATION_SETTINGS, ...JSON.parse(raw) } : DEFAULT_GENERATION_SETTINGS;
+        return validateGenerationSettings(saved).length === 0 ? saved : DEFAULT_GENERATION_SETTINGS;
+    } catch (e) {
+        console.error(`Failed to read ${SETTINGS_KEY} from local storage:`, e);
+        return DEFAULT_GENERATION_SETTINGS;
+    }
+}
+
+export function saveGenerationSettings(settings: GenerationSettings): void {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
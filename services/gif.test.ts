@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { encodeGif } from './gif';
+
+interface DecodedFrame {
+    delayMs: number;
+    /** RGB triples, one per pixel. */
+    pixels: number[];
+}
+
+/** Decodes GIF image data, as a viewer would. */
+function lzwDecode(data: number[], minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const out: number[] = [];
+    let table: number[][] = [];
+    let codeSize = minCodeSize + 1;
+    let previous: number[] | null = null;
+    let bitPosition = 0;
+    const reset = () => {
+        table = Array.from({ length: endCode + 1 }, (_, i) => [i]);
+        codeSize = minCodeSize + 1;
+        previous = null;
+    };
+    const read = () => {
+        let code = 0;
+        for (let i = 0; i < codeSize; i++, bitPosition++) {
+            code |= ((data[bitPosition >> 3] >> (bitPosition & 7)) & 1) << i;
+        }
+        return code;
+    };
+
+    reset();
+    while (bitPosition + codeSize <= data.length * 8) {
+        const code = read();
+        if (code === clearCode) {
+            reset();
+            continue;
+        }
+        if (code === endCode) return out;
+        let entry: number[];
+        if (code < table.length) entry = table[code];
+        else if (code === table.length && previous) entry = [...previous, previous[0]];
+        else throw new Error(`Invalid code ${code}`);
+        out.push(...entry);
+        if (previous && table.length < 4096) {
+            table.push([...previous, entry[0]]);
+            if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        previous = entry;
+    }
+    throw new Error('Missing end code');
+}
+
+/** Reads the frames of a GIF with local color tables only, as `encodeGif` writes it. */
+function decodeGif(bytes: Uint8Array): { width: number; height: number; loops: boolean; frames: DecodedFrame[] } {
+    const ascii = (start: number, length: number) => String.fromCharCode(...bytes.slice(start, start + length));
+    const u16 = (at: number) => bytes[at] | (bytes[at + 1] << 8);
+    assert.equal(ascii(0, 6), 'GIF89a');
+    const width = u16(6);
+    const height = u16(8);
+    let position = 13;
+    let loops = false;
+    let delayMs = 0;
+    const frames: DecodedFrame[] = [];
+    const subBlocks = () => {
+        const data: number[] = [];
+        while (bytes[position] !== 0) {
+            data.push(...bytes.slice(position + 1, position + 1 + bytes[position]));
+            position += bytes[position] + 1;
+        }
+        position++;
+        return data;
+    };
+
+    while (bytes[position] !== 0x3b) {
+        const introducer = bytes[position++];
+        if (introducer === 0x21) {
+            const label = bytes[position++];
+            const data = subBlocks();
+            if (label === 0xf9) delayMs = (data[1] | (data[2] << 8)) * 10;
+            if (label === 0xff && String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0') loops = true;
+        } else if (introducer === 0x2c) {
+            assert.equal(u16(position + 4), width);
+            assert.equal(u16(position + 6), height);
+            const packed = bytes[position + 8];
+            position += 9;
+            assert.ok(packed & 0x80, 'every frame has a local color table');
+            const tableSize = 3 << ((packed & 7) + 1);
+            const palette = bytes.slice(position, position + tableSize);
+            position += tableSize;
+            const minCodeSize = bytes[position++];
+            const indices = lzwDecode(subBlocks(), minCodeSize);
+            assert.equal(indices.length, width * height);
+            frames.push({ delayMs, pixels: indices.flatMap((index) => [...palette.slice(index * 3, index * 3 + 3)]) });
+        } else {
+            throw new Error(`Unexpected block 0x${introducer.toString(16)}`);
+        }
+    }
+    return { width, height, loops, frames };
+}
+
+const toRgba = (rgb: number[]) => {
+    const pixels = new Uint8ClampedArray((rgb.length / 3) * 4);
+    for (let i = 0; i < rgb.length / 3; i++) {
+        pixels.set(rgb.slice(i * 3, i * 3 + 3), i * 4);
+        pixels[i * 4 + 3] = 255;
+    }
+    return pixels;
+};
+
+/** A deterministic frame of `width * height` pixels drawn from `colors` colors that survive quantization exactly. */
+function noiseFrame(width: number, height: number, colors: number, seed: number): number[] {
+    const palette = Array.from({ length: colors }, (_, i) => [(i * 8) % 256, (i * 40) % 256, Math.floor(i / 32) * 8]);
+    let state = seed;
+    const rgb: number[] = [];
+    for (let i = 0; i < width * height; i++) {
+        state = (state * 1103515245 + 12345) & 0x7fffffff;
+        rgb.push(...palette[state % colors]);
+    }
+    return rgb;
+}
+
+describe('encodeGif', () => {
+    it('round-trips frames with few colors exactly, with their delays', () => {
+        const first = noiseFrame(37, 23, 4, 1);
+        const second = noiseFrame(37, 23, 2, 2);
+        const gif = decodeGif(encodeGif([{ pixels: toRgba(first), delayMs: 500 }, { pixels: toRgba(second), delayMs: 120 }], 37, 23));
+        assert.equal(gif.width, 37);
+        assert.equal(gif.height, 23);
+        assert.equal(gif.loops, true);
+        assert.deepEqual(gif.frames.map((frame) => frame.delayMs), [500, 120]);
+        assert.deepEqual(gif.frames[0].pixels, first);
+        assert.deepEqual(gif.frames[1].pixels, second);
+    });
+
+    it('round-trips a frame large enough to fill the code table', () => {
+        const rgb = noiseFrame(128, 128, 200, 3);
+        const gif = decodeGif(encodeGif([{ pixels: toRgba(rgb), delayMs: 100 }], 128, 128));
+        assert.deepEqual(gif.frames[0].pixels, rgb);
+    });
+
+    it('rejects frames of the wrong size', () => {
+        assert.throws(() => encodeGif([{ pixels: new Uint8ClampedArray(4), delayMs: 100 }], 2, 2), /same size/);
+        assert.throws(() => encodeGif([], 2, 2), /at least one frame/);
+    });
+});
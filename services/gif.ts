@@ -0,0 +1,186 @@
+/**
+ * Minimal animated GIF encoder. Each frame gets its own palette from a median
+ * cut over 15-bit colors, which keeps skin tones smooth across frames that
+ * differ a lot, and the pixel data is LZW-compressed as the format requires.
+ */
+
+export interface GifFrame {
+    /** RGBA pixels, `width * height * 4` bytes; alpha is ignored. */
+    pixels: Uint8ClampedArray;
+    delayMs: number;
+}
+
+const MAX_COLORS = 256;
+
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const channel = (key: number, shift: number) => (key >> shift) & 31;
+const SHIFTS = [10, 5, 0];
+
+/** Reduces a frame to at most 256 colors: a palette of RGB triples and one palette index per pixel. */
+function quantize(pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array } {
+    const pixelCount = pixels.length / 4;
+    const keys = new Uint16Array(pixelCount);
+    const counts = new Uint32Array(1 << 15);
+    // Exact channel totals per bucket, so palette colors are true averages rather than bucket centers.
+    const totals = new Float64Array(3 << 15);
+    for (let i = 0; i < pixelCount; i++) {
+        const key = colorKey(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+        keys[i] = key;
+        counts[key]++;
+        totals[key * 3] += pixels[i * 4];
+        totals[key * 3 + 1] += pixels[i * 4 + 1];
+        totals[key * 3 + 2] += pixels[i * 4 + 2];
+    }
+    const used: number[] = [];
+    counts.forEach((count, key) => count > 0 && used.push(key));
+
+    // Median cut: keep splitting the box with the widest channel at its population median.
+    const boxes: number[][] = [used];
+    while (boxes.length < MAX_COLORS) {
+        let best = -1;
+        let bestShift = 0;
+        let bestRange = 0;
+        boxes.forEach((box, i) => {
+            if (box.length < 2) return;
+            for (const shift of SHIFTS) {
+                let min = 31;
+                let max = 0;
+                for (const key of box) {
+                    const value = channel(key, shift);
+                    if (value < min) min = value;
+                    if (value > max) max = value;
+                }
+                if (max - min > bestRange) {
+                    best = i;
+                    bestShift = shift;
+                    bestRange = max - min;
+                }
+            }
+        });
+        if (best < 0) break;
+        const box = boxes[best].sort((a, b) => channel(a, bestShift) - channel(b, bestShift));
+        const total = box.reduce((sum, key) => sum + counts[key], 0);
+        let split = 0;
+        for (let seen = 0; split < box.length - 1 && seen + counts[box[split]] <= total / 2; split++) {
+            seen += counts[box[split]];
+        }
+        split = Math.max(1, split);
+        boxes.splice(best, 1, box.slice(0, split), box.slice(split));
+    }
+
+    const palette = new Uint8Array(boxes.length * 3);
+    const lookup = new Uint8Array(1 << 15);
+    boxes.forEach((box, index) => {
+        const sums = [0, 0, 0];
+        let total = 0;
+        for (const key of box) {
+            for (let c = 0; c < 3; c++) sums[c] += totals[key * 3 + c];
+            total += counts[key];
+            lookup[key] = index;
+        }
+        sums.forEach((sum, c) => (palette[index * 3 + c] = Math.round(sum / total)));
+    });
+
+    const indices = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) indices[i] = lookup[keys[i]];
+    return { palette, indices };
+}
+
+/** LZW-compresses palette indices with variable-width codes, as GIF image data. */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const out: number[] = [];
+    let buffer = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    const write = (code: number) => {
+        buffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            out.push(buffer & 0xff);
+            buffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    let table = new Map<number, number>();
+    let nextCode = endCode + 1;
+    write(clearCode);
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const key = (prefix << 8) | indices[i];
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+        write(prefix);
+        if (nextCode < 4096) {
+            table.set(key, nextCode++);
+            if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+        } else {
+            // The code table is full: start over with a fresh one.
+            write(clearCode);
+            table = new Map();
+            nextCode = endCode + 1;
+            codeSize = minCodeSize + 1;
+        }
+        prefix = indices[i];
+    }
+    write(prefix);
+    write(endCode);
+    if (bitCount > 0) out.push(buffer & 0xff);
+    return out;
+}
+
+/** Encodes frames of the same size as a GIF that loops forever. */
+export function encodeGif(frames: GifFrame[], width: number, height: number): Uint8Array {
+    if (frames.length === 0) {
+        throw new Error("An animation needs at least one frame.");
+    }
+    const bytes: number[] = [];
+    const push16 = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+    const pushText = (text: string) => bytes.push(...Array.from(text, (c) => c.charCodeAt(0)));
+
+    pushText('GIF89a');
+    push16(width);
+    push16(height);
+    bytes.push(0, 0, 0); // no global color table
+    // NETSCAPE2.0 application extension: loop forever.
+    bytes.push(0x21, 0xff, 0x0b);
+    pushText('NETSCAPE2.0');
+    bytes.push(0x03, 0x01, 0, 0, 0);
+
+    for (const frame of frames) {
+        if (frame.pixels.length !== width * height * 4) {
+            throw new Error("Every frame of an animation must be the same size.");
+        }
+        const { palette, indices } = quantize(frame.pixels);
+        const bits = Math.max(1, Math.ceil(Math.log2(palette.length / 3)));
+
+        // Graphic control extension: the delay is in hundredths of a second.
+        bytes.push(0x21, 0xf9, 0x04, 0x04);
+        push16(Math.max(2, Math.round(frame.delayMs / 10)));
+        bytes.push(0, 0);
+
+        bytes.push(0x2c);
+        push16(0);
+        push16(0);
+        push16(width);
+        push16(height);
+        bytes.push(0x80 | (bits - 1)); // local color table of 2^bits entries
+        for (let i = 0; i < 3 << bits; i++) bytes.push(palette[i] ?? 0);
+
+        const minCodeSize = Math.max(2, bits);
+        bytes.push(minCodeSize);
+        const data = lzwEncode(indices, minCodeSize);
+        for (let i = 0; i < data.length; i += 255) {
+            const block = data.slice(i, i + 255);
+            bytes.push(block.length, ...block);
+        }
+        bytes.push(0);
+    }
+    bytes.push(0x3b);
+    return new Uint8Array(bytes);
+}
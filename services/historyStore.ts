@@ -0,0 +1,20 @@
+import type { HistoryEntry } from '../types';
+import { withStore } from './db';
+
+/** Returns all stored generations, newest first. */
+export async function listHistory(): Promise<HistoryEntry[]> {
+    const entries = await withStore<HistoryEntry[]>('history', 'readonly', (store) => store.index('createdAt').getAll());
+    return entries.reverse();
+}
+
+export async function addHistoryEntry(entry: HistoryEntry): Promise<void> {
+    await withStore('history', 'readwrite', (store) => store.put(entry));
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+    await withStore('history', 'readwrite', (store) => store.delete(id));
+}
+
+export async function clearHistory(): Promise<void> {
+    await withStore('history', 'readwrite', (store) => store.clear());
+}
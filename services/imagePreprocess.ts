@@ -0,0 +1,134 @@
+import type { ImageFile } from '../types';
+import { loadImageElement } from './imageUtils';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** A crop rectangle with all values normalized to 0–1 of the (rotated) image. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface TransformOptions {
+    rotation?: Rotation;
+    crop?: CropRect;
+    maxDimension: number;
+}
+
+const ENCODE_QUALITY = 0.92;
+
+/** PNG keeps transparency; everything else is re-encoded in its own format. */
+const outputMimeType = (mimeType: string) =>
+    mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png';
+
+export const fitWithin = (width: number, height: number, maxDimension: number) => {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const newCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not create a canvas context.");
+    }
+    return { canvas, ctx };
+};
+
+const encode = (canvas: HTMLCanvasElement, mimeType: string): ImageFile => {
+    const type = outputMimeType(mimeType);
+    return { dataUrl: canvas.toDataURL(type, ENCODE_QUALITY), mimeType: type };
+};
+
+/**
+ * Decodes an uploaded file upright and downscales it so its longest side is at
+ * most `maxDimension`. Decoding with `imageOrientation: 'from-image'` applies
+ * the EXIF orientation, and re-encoding drops the EXIF block, so the model
+ * sees the photo the same way the user does.
+ */
+export async function normalizeImageFile(file: Blob, maxDimension: number): Promise<ImageFile> {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        throw new Error("The file could not be decoded as an image.");
+    }
+    try {
+        const size = fitWithin(bitmap.width, bitmap.height, maxDimension);
+        const { canvas, ctx } = newCanvas(size.width, size.height);
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, size.width, size.height);
+        return encode(canvas, file.type);
+    } finally {
+        bitmap.close();
+    }
+}
+
+export const rotatedSize = (width: number, height: number, rotation: Rotation) =>
+    rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+/** Rotates, then crops, then downscales an image and re-encodes it. */
+export async function transformImage(image: ImageFile, { rotation = 0, crop, maxDimension }: TransformOptions): Promise<ImageFile> {
+    const img = await loadImageElement(image.dataUrl);
+    const source = { width: img.naturalWidth, height: img.naturalHeight };
+    const rotated = rotatedSize(source.width, source.height, rotation);
+    const area = crop ?? { x: 0, y: 0, width: 1, height: 1 };
+    const cropPx = {
+        x: area.x * rotated.width,
+        y: area.y * rotated.height,
+        width: Math.max(1, area.width * rotated.width),
+        height: Math.max(1, area.height * rotated.height),
+    };
+    const output = fitWithin(cropPx.width, cropPx.height, maxDimension);
+
+    const { canvas, ctx } = newCanvas(output.width, output.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.scale(output.width / cropPx.width, output.height / cropPx.height);
+    ctx.translate(-cropPx.x, -cropPx.y);
+    switch (rotation) {
+        case 90:
+            ctx.translate(source.height, 0);
+            ctx.rotate(Math.PI / 2);
+            break;
+        case 180:
+            ctx.translate(source.width, source.height);
+            ctx.rotate(Math.PI);
+            break;
+        case 270:
+            ctx.translate(0, source.width);
+            ctx.rotate(-Math.PI / 2);
+            break;
+    }
+    ctx.drawImage(img, 0, 0);
+    return encode(canvas, image.mimeType);
+}
+
+/**
+ * The largest centered crop with the given width/height ratio, scaled by
+ * `zoom` (1 = as large as possible). Null `aspect` keeps the image's own ratio.
+ */
+export function centeredCrop(imageWidth: number, imageHeight: number, aspect: number | null, zoom = 1): CropRect {
+    const imageAspect = imageWidth / imageHeight;
+    const target = aspect ?? imageAspect;
+    let width = 1;
+    let height = 1;
+    if (target > imageAspect) {
+        height = imageAspect / target;
+    } else {
+        width = target / imageAspect;
+    }
+    width *= zoom;
+    height *= zoom;
+    return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+}
+
+/** Keeps a crop rectangle inside the image. */
+export const clampCrop = (crop: CropRect): CropRect => ({
+    ...crop,
+    x: Math.min(Math.max(0, crop.x), 1 - crop.width),
+    y: Math.min(Math.max(0, crop.y), 1 - crop.height),
+});
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getImageProvider, resolveProviderId, setImageProvider } from './imageProvider';
+
+const ENV_KEYS = ['IMAGE_PROVIDER', 'API_KEY'] as const;
+
+describe('resolveProviderId', () => {
+    const saved: Partial<Record<string, string>> = {};
+
+    beforeEach(() => {
+        for (const key of ENV_KEYS) {
+            saved[key] = process.env[key];
+            delete process.env[key];
+        }
+    });
+
+    afterEach(() => {
+        for (const key of ENV_KEYS) {
+            if (saved[key] === undefined) delete process.env[key];
+            else process.env[key] = saved[key];
+        }
+        delete (globalThis as { window?: unknown }).window;
+        setImageProvider(null);
+    });
+
+    it('uses IMAGE_PROVIDER, ignoring case and surrounding spaces', () => {
+        process.env.IMAGE_PROVIDER = ' Proxy ';
+        process.env.API_KEY = 'key';
+        assert.equal(resolveProviderId(), 'proxy');
+    });
+
+    it('rejects an unknown IMAGE_PROVIDER', () => {
+        process.env.IMAGE_PROVIDER = 'dalle';
+        assert.throws(() => resolveProviderId(), /Unknown IMAGE_PROVIDER "dalle"/);
+    });
+
+    it('uses Gemini when an API key is set', () => {
+        process.env.API_KEY = 'key';
+        assert.equal(resolveProviderId(), 'gemini');
+    });
+
+    it('falls back to the proxy in a browser and the mock provider elsewhere', () => {
+        assert.equal(resolveProviderId(), 'mock');
+        (globalThis as { window?: unknown }).window = {};
+        assert.equal(resolveProviderId(), 'proxy');
+    });
+
+    it('creates the resolved provider once and lets it be overridden', () => {
+        process.env.IMAGE_PROVIDER = 'mock';
+        const provider = getImageProvider();
+        assert.equal(provider.id, 'mock');
+        assert.equal(getImageProvider(), provider);
+
+        const stub = { id: 'gemini' as const, generateImage: async () => 'data:image/png;base64,AAAA' };
+        setImageProvider(stub);
+        assert.equal(getImageProvider(), stub);
+    });
+});
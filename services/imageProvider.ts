@@ -0,0 +1,80 @@
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider } from './providers/proxyProvider';
+import type { GenerationSettings, GenerationStage } from '../types';
+
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+export interface GenerateImageInput {
+    person: InlineImage;
+    references: InlineImage[];
+    instructions: string;
+    /** Model and sampling options; providers that cannot honour them ignore them. */
+    settings?: GenerationSettings;
+}
+
+export interface GenerateOptions {
+    signal?: AbortSignal;
+    onStage?: (stage: GenerationStage) => void;
+}
+
+export interface ImageProvider {
+    readonly id: ProviderId;
+    /**
+     * True when transient failures are already retried behind the provider,
+     * as the API server does for the proxy, so callers should not retry again.
+     */
+    readonly retriesUpstream?: boolean;
+    /**
+     * Resolves with a data URL of the generated image. Providers report the
+     * `uploading` and `generating` stages and reject once `signal` aborts.
+     */
+    generateImage(input: GenerateImageInput, options?: GenerateOptions): Promise<string>;
+    /**
+     * Translates user descriptions into English, one output per input in the
+     * same order. Text that is already English comes back unchanged.
+     */
+    translateText?(texts: string[], options?: Pick<GenerateOptions, 'signal'>): Promise<string[]>;
+}
+
+export type ProviderId = 'gemini' | 'mock' | 'proxy';
+
+const factories: Record<ProviderId, () => ImageProvider> = {
+    gemini: createGeminiProvider,
+    mock: createMockProvider,
+    proxy: createProxyProvider,
+};
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Picks the provider named by `IMAGE_PROVIDER`. Without it, Gemini is used
+ * where an API key is configured (the server and CLI), the proxy in the
+ * browser, and the mock provider otherwise.
+ */
+export function resolveProviderId(): ProviderId {
+    const configured = process.env.IMAGE_PROVIDER?.trim().toLowerCase();
+    if (configured) {
+        if (!(configured in factories)) {
+            throw new Error(`Unknown IMAGE_PROVIDER "${configured}". Expected one of: ${Object.keys(factories).join(', ')}.`);
+        }
+        return configured as ProviderId;
+    }
+    if (process.env.API_KEY) return 'gemini';
+    return typeof window !== 'undefined' ? 'proxy' : 'mock';
+}
+
+export function getImageProvider(): ImageProvider {
+    if (!activeProvider) {
+        activeProvider = factories[resolveProviderId()]();
+    }
+    return activeProvider;
+}
+
+/** Overrides the configured provider, e.g. to inject a stub in tests. */
+export function setImageProvider(provider: ImageProvider | null): void {
+    activeProvider = provider;
+}
@@ -0,0 +1,83 @@
+import type { ImageFile } from '../types';
+import { MAX_UPLOAD_BYTES } from '../constants';
+
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+/** Why an upload cannot be used, or null when it can. */
+export function validateImageFile(file: Blob, maxBytes = MAX_UPLOAD_BYTES): string | null {
+    const name = file instanceof File ? `"${file.name}"` : null;
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+        return `${name ?? "This file"} is not a supported image. Use PNG, JPG or WEBP.`;
+    }
+    if (file.size > maxBytes) {
+        const mb = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+        return `${name ?? "The image"} is ${mb(file.size)}; the limit is ${mb(maxBytes)}.`;
+    }
+    return null;
+}
+
+/**
+ * Downloads an image from a URL. The fetch needs CORS access to the other
+ * site, which many image hosts do not grant; that case gets its own message.
+ */
+export async function fetchImageBlob(url: string, signal?: AbortSignal): Promise<Blob> {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error("Enter a full image address starting with https://.");
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        throw new Error("Only http and https image addresses are supported.");
+    }
+    let response: Response;
+    try {
+        response = await fetch(parsed.href, { signal });
+    } catch (e) {
+        if (e instanceof DOMException && e.name === 'AbortError') throw e;
+        throw new Error("The image could not be downloaded. The site may not allow other pages to load it; save the image and upload the file instead.");
+    }
+    if (!response.ok) {
+        throw new Error(`The image could not be downloaded (HTTP ${response.status}).`);
+    }
+    return response.blob();
+}
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Could not decode image."));
+        img.src = src;
+    });
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+    const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+export function extensionForMimeType(mimeType: string): string {
+    switch (mimeType) {
+        case 'image/jpeg': return 'jpg';
+        case 'image/webp': return 'webp';
+        case 'image/gif': return 'gif';
+        default: return 'png';
+    }
+}
+
+/** Triggers a browser download of the given data. */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
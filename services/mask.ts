@@ -0,0 +1,103 @@
+import type { ImageFile } from '../types';
+import { loadImageElement } from './imageUtils';
+
+/** Mask pixels at or above this red value count as editable. */
+const MASK_THRESHOLD = 128;
+
+const pixelsAt = (img: HTMLImageElement, width: number, height: number): ImageData => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error("Could not create a canvas context.");
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Takes the generated image inside the mask and the original everywhere else,
+ * at the original's resolution. The mask is thresholded rather than blended
+ * so pixels outside it keep exactly their original values.
+ */
+export async function compositeWithMask(original: ImageFile, generatedDataUrl: string, mask: ImageFile): Promise<string> {
+    const [base, generated, maskImg] = await Promise.all([
+        loadImageElement(original.dataUrl),
+        loadImageElement(generatedDataUrl),
+        loadImageElement(mask.dataUrl),
+    ]);
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+    const out = pixelsAt(base, width, height);
+    const gen = pixelsAt(generated, width, height).data;
+    const m = pixelsAt(maskImg, width, height).data;
+
+    for (let i = 0; i < out.data.length; i += 4) {
+        if (m[i] >= MASK_THRESHOLD) {
+            out.data[i] = gen[i];
+            out.data[i + 1] = gen[i + 1];
+            out.data[i + 2] = gen[i + 2];
+            out.data[i + 3] = gen[i + 3];
+        }
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.putImageData(out, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Converts a painted overlay (any opaque pixel counts as painted) into a
+ * black-and-white mask image. Returns null if nothing is painted.
+ */
+export function overlayToMask(overlay: HTMLCanvasElement): ImageFile | null {
+    const ctx = overlay.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    const source = ctx.getImageData(0, 0, overlay.width, overlay.height).data;
+    const canvas = document.createElement('canvas');
+    canvas.width = overlay.width;
+    canvas.height = overlay.height;
+    const outCtx = canvas.getContext('2d')!;
+    const mask = outCtx.createImageData(overlay.width, overlay.height);
+    let painted = false;
+    for (let i = 0; i < source.length; i += 4) {
+        const value = source[i + 3] > 0 ? 255 : 0;
+        painted ||= value === 255;
+        mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = value;
+        mask.data[i + 3] = 255;
+    }
+    if (!painted) return null;
+    outCtx.putImageData(mask, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), mimeType: 'image/png' };
+}
+
+/** Paints the white areas of a mask image onto an overlay canvas in the given color. */
+export async function maskToOverlay(mask: ImageFile, overlay: HTMLCanvasElement, color: [number, number, number]): Promise<void> {
+    const img = await loadImageElement(mask.dataUrl);
+    const source = pixelsAt(img, overlay.width, overlay.height).data;
+    const ctx = overlay.getContext('2d', { willReadFrequently: true })!;
+    const target = ctx.createImageData(overlay.width, overlay.height);
+    for (let i = 0; i < source.length; i += 4) {
+        if (source[i] >= MASK_THRESHOLD) {
+            [target.data[i], target.data[i + 1], target.data[i + 2]] = color;
+            target.data[i + 3] = 255;
+        }
+    }
+    ctx.putImageData(target, 0, 0);
+}
+
+/** Swaps painted and unpainted areas of an overlay canvas in place. */
+export function invertOverlay(overlay: HTMLCanvasElement, color: [number, number, number]): void {
+    const ctx = overlay.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    const pixels = ctx.getImageData(0, 0, overlay.width, overlay.height);
+    for (let i = 0; i < pixels.data.length; i += 4) {
+        const painted = pixels.data[i + 3] > 0;
+        [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]] = color;
+        pixels.data[i + 3] = painted ? 0 : 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+}
@@ -0,0 +1,21 @@
+import type { GarmentSlot } from '../types';
+
+/** Garment slots in the order they are shown, described and attached. */
+export const GARMENT_SLOTS: GarmentSlot[] = ['top', 'bottom', 'shoes', 'outerwear', 'accessories'];
+
+export const GARMENT_LABELS: Record<GarmentSlot, string> = {
+    top: 'Top',
+    bottom: 'Bottom',
+    shoes: 'Shoes',
+    outerwear: 'Outerwear',
+    accessories: 'Accessories',
+};
+
+/** How each slot is referred to in the prompt. */
+export const GARMENT_NAMES: Record<GarmentSlot, string> = {
+    top: 'top (shirt, blouse or t-shirt)',
+    bottom: 'bottoms (trousers, skirt or shorts)',
+    shoes: 'shoes',
+    outerwear: 'outerwear (jacket or coat)',
+    accessories: 'accessories (bag, hat, jewellery or glasses)',
+};
@@ -0,0 +1,117 @@
+import type { ImageFile, Keypoint, PoseJoint, PoseKeypoints } from '../types';
+import { isRecord } from './editRequest';
+
+export const POSE_FILE_VERSION = 1;
+
+export const JOINTS: PoseJoint[] = [
+    'head', 'neck',
+    'leftShoulder', 'rightShoulder', 'leftElbow', 'rightElbow', 'leftWrist', 'rightWrist',
+    'leftHip', 'rightHip', 'leftKnee', 'rightKnee', 'leftAnkle', 'rightAnkle',
+];
+
+/** Limbs as joint pairs. Left and right are from the subject's point of view. */
+export const BONES: Array<[PoseJoint, PoseJoint]> = [
+    ['head', 'neck'],
+    ['neck', 'leftShoulder'], ['leftShoulder', 'leftElbow'], ['leftElbow', 'leftWrist'],
+    ['neck', 'rightShoulder'], ['rightShoulder', 'rightElbow'], ['rightElbow', 'rightWrist'],
+    ['leftShoulder', 'leftHip'], ['rightShoulder', 'rightHip'], ['leftHip', 'rightHip'],
+    ['leftHip', 'leftKnee'], ['leftKnee', 'leftAnkle'],
+    ['rightHip', 'rightKnee'], ['rightKnee', 'rightAnkle'],
+];
+
+/** A neutral standing pose, facing the viewer. */
+export const DEFAULT_POSE: PoseKeypoints = {
+    head: { x: 0.5, y: 0.1 },
+    neck: { x: 0.5, y: 0.2 },
+    rightShoulder: { x: 0.4, y: 0.22 },
+    leftShoulder: { x: 0.6, y: 0.22 },
+    rightElbow: { x: 0.37, y: 0.36 },
+    leftElbow: { x: 0.63, y: 0.36 },
+    rightWrist: { x: 0.36, y: 0.5 },
+    leftWrist: { x: 0.64, y: 0.5 },
+    rightHip: { x: 0.44, y: 0.52 },
+    leftHip: { x: 0.56, y: 0.52 },
+    rightKnee: { x: 0.44, y: 0.7 },
+    leftKnee: { x: 0.56, y: 0.7 },
+    rightAnkle: { x: 0.44, y: 0.88 },
+    leftAnkle: { x: 0.56, y: 0.88 },
+};
+
+const sideColor = (joint: PoseJoint) =>
+    joint.startsWith('left') ? '#f97316' : joint.startsWith('right') ? '#0ea5e9' : '#111827';
+
+/**
+ * Draws the skeleton onto a 2D context sized `size` × `size`. Left limbs are
+ * orange and right limbs blue so the model can tell the sides apart.
+ */
+export function drawSkeleton(ctx: CanvasRenderingContext2D, keypoints: PoseKeypoints, size: number): void {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, size, size);
+    ctx.lineCap = 'round';
+    ctx.lineWidth = size / 64;
+    for (const [from, to] of BONES) {
+        ctx.strokeStyle = sideColor(to);
+        ctx.beginPath();
+        ctx.moveTo(keypoints[from].x * size, keypoints[from].y * size);
+        ctx.lineTo(keypoints[to].x * size, keypoints[to].y * size);
+        ctx.stroke();
+    }
+    for (const joint of JOINTS) {
+        const { x, y } = keypoints[joint];
+        ctx.fillStyle = sideColor(joint);
+        ctx.beginPath();
+        ctx.arc(x * size, y * size, joint === 'head' ? size / 18 : size / 80, 0, Math.PI * 2);
+        ctx.fill();
+    }
+}
+
+export function renderSkeletonImage(keypoints: PoseKeypoints, size = 512): ImageFile {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not create a canvas context.");
+    }
+    drawSkeleton(ctx, keypoints, size);
+    return { dataUrl: canvas.toDataURL('image/png'), mimeType: 'image/png' };
+}
+
+/** Returns the joint within `radius` of the point, if any. Coordinates are normalized. */
+export function hitTestJoint(keypoints: PoseKeypoints, point: Keypoint, radius: number): PoseJoint | null {
+    let closest: PoseJoint | null = null;
+    let closestDistance = radius;
+    for (const joint of JOINTS) {
+        const distance = Math.hypot(keypoints[joint].x - point.x, keypoints[joint].y - point.y);
+        if (distance <= closestDistance) {
+            closest = joint;
+            closestDistance = distance;
+        }
+    }
+    return closest;
+}
+
+export function serializePose(keypoints: PoseKeypoints): string {
+    return JSON.stringify({ version: POSE_FILE_VERSION, keypoints }, null, 2);
+}
+
+export function parsePose(json: string): PoseKeypoints {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error("Pose file is not valid JSON.");
+    }
+    if (!isRecord(raw) || raw.version !== POSE_FILE_VERSION || !isRecord(raw.keypoints)) {
+        throw new Error("Pose file is not in the expected format.");
+    }
+    const keypoints = {} as PoseKeypoints;
+    for (const joint of JOINTS) {
+        const point = raw.keypoints[joint];
+        if (!isRecord(point) || typeof point.x !== 'number' || typeof point.y !== 'number') {
+            throw new Error(`Pose file is missing the "${joint}" joint.`);
+        }
+        keypoints[joint] = { x: Math.min(1, Math.max(0, point.x)), y: Math.min(1, Math.max(0, point.y)) };
+    }
+    return keypoints;
+}
@@ -0,0 +1,212 @@
+/**
+ * Checks whether a result kept the original person, using MediaPipe face and
+ * pose landmarks computed in the browser. Both scores compare proportions
+ * rather than pixels, so they tolerate the changes the user asked for (pose,
+ * clothing, background). They are heuristics: a low score is a reason to look
+ * closely, not proof that the person changed.
+ */
+
+import type { FaceLandmarker, Landmark, MPMask, NormalizedLandmark, PoseLandmarker } from '@mediapipe/tasks-vision';
+import type { PreservationScores } from '../types';
+import { loadImageElement } from './imageUtils';
+
+const WASM_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@1.0.1/wasm';
+const FACE_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+const POSE_MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task';
+
+interface Point3 {
+    x: number;
+    y: number;
+    z: number;
+}
+
+/** Face mesh indices used for the identity measurements. */
+const FACE = {
+    rightEyeOuter: 33, leftEyeOuter: 263, rightEyeInner: 133, leftEyeInner: 362,
+    noseBridge: 168, noseTip: 1, upperLip: 13, mouthRight: 61, mouthLeft: 291,
+    forehead: 10, chin: 152, cheekRight: 234, cheekLeft: 454,
+};
+
+/** Pose landmark indices used for the body measurements. */
+const POSE = {
+    leftShoulder: 11, rightShoulder: 12, leftElbow: 13, rightElbow: 14, leftWrist: 15, rightWrist: 16,
+    leftHip: 23, rightHip: 24, leftKnee: 25, rightKnee: 26, leftAnkle: 27, rightAnkle: 28,
+};
+
+const MIN_VISIBILITY = 0.5;
+
+const distance = (a: Point3, b: Point3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const midpoint = (a: Point3, b: Point3): Point3 => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 });
+
+/**
+ * Compares two sets of named measurements: 1 minus the mean relative
+ * difference over the measurements both sides have. Null when none overlap.
+ */
+export function compareMeasurements(a: Record<string, number>, b: Record<string, number>): number | null {
+    const keys = Object.keys(a).filter((key) => key in b && Math.max(a[key], b[key]) > 0);
+    if (keys.length === 0) return null;
+    const difference = keys.reduce((sum, key) => sum + Math.abs(a[key] - b[key]) / Math.max(a[key], b[key]), 0) / keys.length;
+    return Math.max(0, 1 - difference);
+}
+
+/**
+ * Face proportions relative to the distance between the outer eye corners.
+ * Landmarks are converted to pixels first so non-square images are not skewed;
+ * z is in the same scale as x, which keeps the ratios stable under head turns.
+ */
+export function faceMeasurements(landmarks: NormalizedLandmark[], width: number, height: number): Record<string, number> {
+    const p = (index: number): Point3 => ({ x: landmarks[index].x * width, y: landmarks[index].y * height, z: landmarks[index].z * width });
+    const eyes = distance(p(FACE.rightEyeOuter), p(FACE.leftEyeOuter));
+    if (eyes === 0) return {};
+    const eyeCenter = midpoint(p(FACE.rightEyeOuter), p(FACE.leftEyeOuter));
+    const mouthCenter = midpoint(p(FACE.mouthRight), p(FACE.mouthLeft));
+    return {
+        innerEyes: distance(p(FACE.rightEyeInner), p(FACE.leftEyeInner)) / eyes,
+        faceWidth: distance(p(FACE.cheekRight), p(FACE.cheekLeft)) / eyes,
+        faceHeight: distance(p(FACE.forehead), p(FACE.chin)) / eyes,
+        noseLength: distance(p(FACE.noseBridge), p(FACE.noseTip)) / eyes,
+        noseToLip: distance(p(FACE.noseTip), p(FACE.upperLip)) / eyes,
+        mouthWidth: distance(p(FACE.mouthRight), p(FACE.mouthLeft)) / eyes,
+        eyesToMouth: distance(eyeCenter, mouthCenter) / eyes,
+        noseToChin: distance(p(FACE.noseTip), p(FACE.chin)) / eyes,
+    };
+}
+
+/** Width of the foreground silhouette on one row, scanning out from a point inside the body. */
+function silhouetteWidth(mask: Float32Array, maskWidth: number, row: number, centerX: number): number {
+    const start = row * maskWidth;
+    const inside = (x: number) => x >= 0 && x < maskWidth && mask[start + x] > 0.5;
+    if (!inside(centerX)) return 0;
+    let left = centerX;
+    let right = centerX;
+    while (inside(left - 1)) left--;
+    while (inside(right + 1)) right++;
+    return right - left + 1;
+}
+
+/**
+ * Body proportions relative to torso length: limb and shoulder/hip ratios from
+ * the 3D world landmarks, plus silhouette widths at chest, waist and hip height
+ * from the segmentation mask, which is what changes when a body is made
+ * thinner or larger.
+ */
+export function bodyMeasurements(
+    landmarks: NormalizedLandmark[],
+    world: Landmark[],
+    mask: { data: Float32Array; width: number; height: number } | null
+): Record<string, number> {
+    const visible = (...indices: number[]) => indices.every((i) => (landmarks[i]?.visibility ?? 0) >= MIN_VISIBILITY);
+    if (!visible(POSE.leftShoulder, POSE.rightShoulder, POSE.leftHip, POSE.rightHip)) return {};
+
+    const w = (index: number) => world[index];
+    const torso = distance(midpoint(w(POSE.leftShoulder), w(POSE.rightShoulder)), midpoint(w(POSE.leftHip), w(POSE.rightHip)));
+    if (torso === 0) return {};
+    const measurements: Record<string, number> = {
+        shoulderWidth: distance(w(POSE.leftShoulder), w(POSE.rightShoulder)) / torso,
+        hipWidth: distance(w(POSE.leftHip), w(POSE.rightHip)) / torso,
+    };
+    // Limbs are averaged over whichever sides are visible.
+    const limb = (name: string, pairs: Array<[number, number]>) => {
+        const lengths = pairs.filter(([a, b]) => visible(a, b)).map(([a, b]) => distance(w(a), w(b)));
+        if (lengths.length > 0) measurements[name] = lengths.reduce((sum, l) => sum + l, 0) / lengths.length / torso;
+    };
+    limb('upperArm', [[POSE.leftShoulder, POSE.leftElbow], [POSE.rightShoulder, POSE.rightElbow]]);
+    limb('forearm', [[POSE.leftElbow, POSE.leftWrist], [POSE.rightElbow, POSE.rightWrist]]);
+    limb('thigh', [[POSE.leftHip, POSE.leftKnee], [POSE.rightHip, POSE.rightKnee]]);
+    limb('shin', [[POSE.leftKnee, POSE.leftAnkle], [POSE.rightKnee, POSE.rightAnkle]]);
+
+    if (mask) {
+        const px = (index: number) => ({ x: landmarks[index].x * mask.width, y: landmarks[index].y * mask.height, z: 0 });
+        const shoulders = midpoint(px(POSE.leftShoulder), px(POSE.rightShoulder));
+        const hips = midpoint(px(POSE.leftHip), px(POSE.rightHip));
+        const torsoPixels = distance(shoulders, hips);
+        const rows: Record<string, number> = { chest: 0.25, waist: 0.65, hips: 1 };
+        for (const [name, t] of Object.entries(rows)) {
+            const row = Math.round(shoulders.y + (hips.y - shoulders.y) * t);
+            const centerX = Math.round(shoulders.x + (hips.x - shoulders.x) * t);
+            if (row < 0 || row >= mask.height || torsoPixels === 0) continue;
+            const width = silhouetteWidth(mask.data, mask.width, row, centerX);
+            if (width > 0) measurements[`${name}Silhouette`] = width / torsoPixels;
+        }
+    }
+    return measurements;
+}
+
+let faceLandmarker: Promise<FaceLandmarker> | null = null;
+let poseLandmarker: Promise<PoseLandmarker> | null = null;
+
+/** Loads the MediaPipe runtime and models on first use; they are a few MB each. */
+function getLandmarkers(): Promise<[FaceLandmarker, PoseLandmarker]> {
+    if (!faceLandmarker || !poseLandmarker) {
+        const vision = import('@mediapipe/tasks-vision');
+        const fileset = vision.then(({ FilesetResolver }) => FilesetResolver.forVisionTasks(WASM_URL));
+        faceLandmarker = Promise.all([vision, fileset]).then(([{ FaceLandmarker }, files]) =>
+            FaceLandmarker.createFromOptions(files, {
+                baseOptions: { modelAssetPath: FACE_MODEL_URL },
+                runningMode: 'IMAGE',
+                numFaces: 1,
+            }));
+        poseLandmarker = Promise.all([vision, fileset]).then(([{ PoseLandmarker }, files]) =>
+            PoseLandmarker.createFromOptions(files, {
+                baseOptions: { modelAssetPath: POSE_MODEL_URL },
+                runningMode: 'IMAGE',
+                numPoses: 1,
+                outputSegmentationMasks: true,
+            }));
+        // Let a failed download be retried on the next call.
+        Promise.all([faceLandmarker, poseLandmarker]).catch(() => {
+            faceLandmarker = null;
+            poseLandmarker = null;
+        });
+    }
+    return Promise.all([faceLandmarker!, poseLandmarker!]);
+}
+
+interface Measurements {
+    face: Record<string, number>;
+    body: Record<string, number>;
+}
+
+async function measure(dataUrl: string, face: FaceLandmarker, pose: PoseLandmarker): Promise<Measurements> {
+    const img = await loadImageElement(dataUrl);
+    const faces = face.detect(img).faceLandmarks;
+    const poses = pose.detect(img);
+    const mask: MPMask | undefined = poses.segmentationMasks?.[0];
+    try {
+        return {
+            face: faces[0] ? faceMeasurements(faces[0], img.naturalWidth, img.naturalHeight) : {},
+            body: poses.landmarks[0]
+                ? bodyMeasurements(
+                    poses.landmarks[0],
+                    poses.worldLandmarks[0],
+                    mask ? { data: mask.getAsFloat32Array(), width: mask.width, height: mask.height } : null
+                )
+                : {},
+        };
+    } finally {
+        mask?.close();
+    }
+}
+
+/** Scores how well a result preserves the face and body of the original image. */
+export async function scorePreservation(original: string, result: string): Promise<PreservationScores> {
+    const [face, pose] = await getLandmarkers();
+    const before = await measure(original, face, pose);
+    const after = await measure(result, face, pose);
+    return {
+        identity: compareMeasurements(before.face, after.face),
+        bodyShape: compareMeasurements(before.body, after.body),
+    };
+}
+
+/** The weakest of the relevant scores, or null when neither could be measured. */
+export function lowestScore(scores: PreservationScores, checkBodyShape: boolean): number | null {
+    const relevant = [scores.identity, checkBodyShape ? scores.bodyShape : null].filter((score): score is number => score !== null);
+    return relevant.length > 0 ? Math.min(...relevant) : null;
+}
+
+/** True when a score that was requested fell below the threshold. */
+export function isPreservationViolated(scores: PreservationScores, threshold: number, checkBodyShape: boolean): boolean {
+    const lowest = lowestScore(scores, checkBodyShape);
+    return lowest !== null && lowest < threshold;
+}
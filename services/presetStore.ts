@@ -0,0 +1,15 @@
+import type { StylePreset } from '../types';
+import { withStore } from './db';
+
+/** Returns the user's presets, oldest first. */
+export async function listPresets(): Promise<StylePreset[]> {
+    return withStore<StylePreset[]>('presets', 'readonly', (store) => store.index('createdAt').getAll());
+}
+
+export async function savePreset(preset: StylePreset): Promise<void> {
+    await withStore('presets', 'readwrite', (store) => store.put(preset));
+}
+
+export async function deletePreset(id: string): Promise<void> {
+    await withStore('presets', 'readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,168 @@
+import type { ImageFile, StylePreset } from '../types';
+import { loadImageElement } from './imageUtils';
+import { isRecord, parseOutfit, parseSection } from './editRequest';
+
+export const PRESET_FILE_VERSION = 1;
+
+const THUMBNAIL_SIZE = 128;
+
+/** A gradient tile used as the thumbnail of presets without a reference image. */
+export function swatchThumbnail(from: string, to: string): string {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${THUMBNAIL_SIZE}" height="${THUMBNAIL_SIZE}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+const builtIn = (id: string, preset: Omit<StylePreset, 'id' | 'createdAt' | 'builtIn'>): StylePreset => ({
+    id: `builtin-${id}`,
+    createdAt: 0,
+    builtIn: true,
+    ...preset,
+});
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+    builtIn('business-formal', {
+        name: 'Business formal',
+        tags: ['work', 'formal', 'indoor'],
+        clothing: { text: 'a tailored charcoal suit with a crisp white shirt' },
+        background: { text: 'a bright modern office with soft window light' },
+        pose: 'standing upright, arms relaxed, facing the camera with a confident smile',
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#1f2937', '#64748b'),
+    }),
+    builtIn('studio-portrait', {
+        name: 'Studio portrait',
+        tags: ['portrait', 'studio', 'indoor'],
+        background: { text: 'a seamless light grey studio backdrop with soft, even lighting' },
+        pose: 'head and shoulders turned slightly to the side, looking into the camera',
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#d1d5db', '#6b7280'),
+    }),
+    builtIn('beach-day', {
+        name: 'Beach day',
+        tags: ['summer', 'casual', 'outdoor'],
+        clothing: { text: 'a light linen shirt, shorts and sandals' },
+        background: { text: 'a sunny sandy beach with turquoise water' },
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#fde68a', '#0ea5e9'),
+    }),
+    builtIn('city-night', {
+        name: 'City at night',
+        tags: ['urban', 'evening', 'outdoor'],
+        clothing: { text: 'a black leather jacket over a dark t-shirt and jeans' },
+        background: { text: 'a neon-lit city street at night after rain' },
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#312e81', '#db2777'),
+    }),
+    builtIn('winter-outdoors', {
+        name: 'Winter outdoors',
+        tags: ['winter', 'casual', 'outdoor'],
+        clothing: { text: 'a warm down parka, knit scarf and beanie' },
+        background: { text: 'a snowy forest trail on a clear day' },
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#e0f2fe', '#94a3b8'),
+    }),
+    builtIn('athletic', {
+        name: 'Athletic',
+        tags: ['sport', 'casual', 'outdoor'],
+        clothing: { text: 'running tights, a fitted sports top and trainers' },
+        background: { text: 'an outdoor running track in the morning' },
+        pose: 'mid-stride jogging toward the camera',
+        preserveBodyShape: true,
+        thumbnail: swatchThumbnail('#16a34a', '#f97316'),
+    }),
+];
+
+/** Downscales and centre-crops an image into a square JPEG thumbnail. */
+export async function makeThumbnail(image: ImageFile): Promise<string> {
+    const img = await loadImageElement(image.dataUrl);
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_SIZE;
+    canvas.height = THUMBNAIL_SIZE;
+    canvas.getContext('2d')!.drawImage(
+        img,
+        (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side,
+        0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE
+    );
+    return canvas.toDataURL('image/jpeg', 0.8);
+}
+
+/** Splits a comma-separated tag list into trimmed, lower-case, unique tags. */
+export const parseTags = (input: string): string[] =>
+    [...new Set(input.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+/** Every tag in use, alphabetically. */
+export const collectTags = (presets: StylePreset[]): string[] =>
+    [...new Set(presets.flatMap((preset) => preset.tags))].sort();
+
+/** True when every word of the query appears in the preset's name, tags or descriptions. */
+export function presetMatches(preset: StylePreset, query: string): boolean {
+    const garments = Object.values(preset.outfit ?? {}).map((section) => section?.text);
+    const haystack = [preset.name, ...preset.tags, preset.pose, preset.clothing?.text, ...garments, preset.background?.text]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word));
+}
+
+export function serializePresets(presets: StylePreset[]): string {
+    const shared = presets.map(({ builtIn: _builtIn, ...preset }) => preset);
+    return JSON.stringify({ version: PRESET_FILE_VERSION, presets: shared }, null, 2);
+}
+
+/** Parses a shared preset file, throwing with every problem found. Imported presets are never built-in. */
+export function parsePresetFile(json: string): StylePreset[] {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error("Preset file is not valid JSON.");
+    }
+    if (!isRecord(raw) || !Array.isArray(raw.presets)) {
+        throw new Error("Preset file must be a JSON object with a \"presets\" list.");
+    }
+    if (raw.version !== PRESET_FILE_VERSION) {
+        throw new Error(`Unsupported preset file version: ${raw.version}.`);
+    }
+
+    const errors: string[] = [];
+    const presets = raw.presets.map((value: unknown, index: number): StylePreset => {
+        const label = `Preset ${index + 1}`;
+        const entry = isRecord(value) ? value : {};
+        if (typeof entry.name !== 'string' || !entry.name.trim()) {
+            errors.push(`${label} needs a name.`);
+        }
+        const tags = entry.tags;
+        const tagsAreText = Array.isArray(tags) && tags.every((tag) => typeof tag === 'string');
+        if (tags !== undefined && !tagsAreText) {
+            errors.push(`${label} tags must be a list of strings.`);
+        }
+        if (entry.pose !== undefined && typeof entry.pose !== 'string') {
+            errors.push(`${label} pose must be text.`);
+        }
+        const clothing = parseSection(entry.clothing, `${label} clothing`, errors);
+        const outfit = parseOutfit(entry.outfit, label, errors);
+        const background = parseSection(entry.background, `${label} background`, errors);
+        const id = typeof entry.id === 'string' && !entry.id.startsWith('builtin-') ? entry.id : `preset-${crypto.randomUUID()}`;
+        return {
+            id,
+            name: String(entry.name ?? '').trim(),
+            tags: tagsAreText ? parseTags(tags.join(',')) : [],
+            pose: typeof entry.pose === 'string' ? entry.pose : undefined,
+            clothing,
+            outfit,
+            background,
+            preserveBodyShape: entry.preserveBodyShape !== false,
+            thumbnail: typeof entry.thumbnail === 'string' && entry.thumbnail.startsWith('data:image/')
+                ? entry.thumbnail
+                : swatchThumbnail('#374151', '#0891b2'),
+            createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : Date.now(),
+        };
+    });
+    if (errors.length > 0) {
+        throw new Error(`Invalid preset file: ${errors.join(' ')}`);
+    }
+    return presets;
+}
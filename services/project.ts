@@ -0,0 +1,216 @@
+/**
+ * Project files: a whole editing session in one portable ZIP archive. The
+ * archive holds a `project.json` manifest plus every image as its own file,
+ * so the manifest stays readable and an image used in several places (e.g.
+ * the original in the chain, the results and the history) is stored once.
+ */
+
+import type { EditChain, EditRequest, EditSection, HistoryEntry, Outfit, PoseKeypoints, ProjectState, Subject, VariantSlot } from '../types';
+import { createZip, readZip, type ZipEntry } from './zip';
+import { dataUrlToBytes, extensionForMimeType } from './imageUtils';
+import { isImageFile, isRecord, parseSection, validateEditRequest } from './editRequest';
+import { validateSubjects } from './subjects';
+import { GARMENT_SLOTS } from './outfit';
+import { DEFAULT_POSE, JOINTS } from './poseSkeleton';
+import { DEFAULT_MAX_IMAGE_DIMENSION, MAX_VARIANTS } from '../constants';
+
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.posechanger.zip';
+
+const MANIFEST_NAME = 'project.json';
+const FORMAT = 'pose-changer-project';
+/** In the manifest, an image is replaced by `{ "$file": "images/1.png" }`. */
+const FILE_REFERENCE = '$file';
+
+const DATA_URL_PATTERN = /^data:([^;,]+);base64,/;
+
+/**
+ * Copies a JSON-like value, letting `replace` substitute any string or object
+ * it recognizes; returning undefined keeps walking.
+ */
+function mapValues(value: unknown, replace: (value: unknown) => unknown): unknown {
+    const replaced = replace(value);
+    if (replaced !== undefined) return replaced;
+    if (Array.isArray(value)) return value.map((item) => mapValues(item, replace));
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapValues(item, replace)]));
+    }
+    return value;
+}
+
+function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+const MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' };
+
+/** Drops unfinished results, which cannot be resumed from a file. */
+export function finishedVariants(variants: VariantSlot[]): VariantSlot[] {
+    return variants
+        .filter((slot) => slot.status === 'done' && slot.image)
+        .map(({ stage: _stage, ...slot }) => slot);
+}
+
+/** Packs a project into a ZIP archive. */
+export function createProjectFile(state: ProjectState, savedAt: Date = new Date()): Uint8Array {
+    const files = new Map<string, string>();
+    const entries: ZipEntry[] = [];
+    const manifest = mapValues(state, (value) => {
+        const match = typeof value === 'string' ? DATA_URL_PATTERN.exec(value) : null;
+        if (!match) return undefined;
+        const dataUrl = value as string;
+        let name = files.get(dataUrl);
+        if (!name) {
+            name = `images/${files.size + 1}.${extensionForMimeType(match[1])}`;
+            files.set(dataUrl, name);
+            entries.push({ name, data: dataUrlToBytes(dataUrl) });
+        }
+        return { [FILE_REFERENCE]: name };
+    });
+    const json = JSON.stringify({ format: FORMAT, version: PROJECT_FILE_VERSION, savedAt: savedAt.toISOString(), project: manifest }, null, 2);
+    return createZip([{ name: MANIFEST_NAME, data: new TextEncoder().encode(json) }, ...entries], savedAt);
+}
+
+/** Opens a project archive, throwing with every problem found. */
+export async function readProjectFile(bytes: Uint8Array): Promise<ProjectState> {
+    let entries: ZipEntry[];
+    try {
+        entries = await readZip(bytes);
+    } catch (e) {
+        throw new Error(`Not a project file: ${e instanceof Error ? e.message : e}`);
+    }
+    const manifestEntry = entries.find((entry) => entry.name === MANIFEST_NAME);
+    if (!manifestEntry) {
+        throw new Error(`Not a project file: ${MANIFEST_NAME} is missing.`);
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(new TextDecoder().decode(manifestEntry.data));
+    } catch {
+        throw new Error(`The project file's ${MANIFEST_NAME} is not valid JSON.`);
+    }
+    if (!isRecord(raw) || raw.format !== FORMAT) {
+        throw new Error("Not a project file.");
+    }
+    if (raw.version !== PROJECT_FILE_VERSION) {
+        throw new Error(`Unsupported project file version: ${raw.version}.`);
+    }
+
+    const images = new Map(entries.map((entry) => [entry.name, entry]));
+    const decoded = new Map<string, string>();
+    const missing: string[] = [];
+    const project = mapValues(raw.project, (value) => {
+        const name = isRecord(value) ? value[FILE_REFERENCE] : undefined;
+        if (typeof name !== 'string') return undefined;
+        const entry = images.get(name);
+        if (!entry) {
+            missing.push(name);
+            return '';
+        }
+        if (!decoded.has(name)) {
+            decoded.set(name, bytesToDataUrl(entry.data, MIME_TYPES[name.slice(name.lastIndexOf('.') + 1)] ?? 'image/png'));
+        }
+        return decoded.get(name)!;
+    });
+    if (missing.length > 0) {
+        throw new Error(`The project file is missing ${missing.length === 1 ? 'an image' : `${missing.length} images`}: ${[...new Set(missing)].join(', ')}.`);
+    }
+    return parseProjectState(project);
+}
+
+const checkRequest = (request: unknown, label: string, errors: string[]) => {
+    if (request === undefined) return;
+    const problems = validateEditRequest(request as EditRequest);
+    if (problems.length > 0) errors.push(`${label}: ${problems.join(' ')}`);
+};
+
+const isKeypoints = (value: unknown): value is PoseKeypoints =>
+    isRecord(value) && JOINTS.every((joint) => {
+        const point = value[joint];
+        return isRecord(point) && Number.isFinite(point.x) && Number.isFinite(point.y);
+    });
+
+const isChain = (value: unknown): value is EditChain =>
+    isRecord(value) && isRecord(value.nodes) && typeof value.rootId === 'string' && typeof value.currentId === 'string'
+    && isRecord(value.nodes[value.rootId]) && isRecord(value.nodes[value.currentId]);
+
+/**
+ * Validates a project read from a file or the autosave. Settings that are
+ * missing fall back to their defaults; the chain and images must be intact.
+ */
+export function parseProjectState(raw: unknown): ProjectState {
+    const errors: string[] = [];
+    if (!isRecord(raw)) {
+        throw new Error("Invalid project: expected an object.");
+    }
+
+    const chain = raw.chain;
+    if (!isChain(chain)) {
+        throw new Error("Invalid project: the edit steps are missing or incomplete.");
+    }
+    for (const node of Object.values<unknown>(chain.nodes)) {
+        const fields = isRecord(node) ? node : {};
+        if (!isImageFile(fields.image)) errors.push(`Edit step ${fields.id} has no valid image.`);
+        if (fields.parentId !== null && !(typeof fields.parentId === 'string' && chain.nodes[fields.parentId])) {
+            errors.push(`Edit step ${fields.id} has a missing parent.`);
+        }
+        checkRequest(fields.request, `Edit step ${fields.id}`, errors);
+    }
+
+    const section = (value: unknown, label: string): EditSection => parseSection(value, label, errors) ?? {};
+    const pose = isRecord(raw.pose) ? raw.pose : {};
+    const poseSection = section({ text: pose.text ?? '', image: pose.image }, 'The pose');
+
+    const outfit: Outfit = {};
+    if (isRecord(raw.outfit)) {
+        for (const slot of GARMENT_SLOTS) {
+            if (raw.outfit[slot] !== undefined) outfit[slot] = section(raw.outfit[slot], `The ${slot} garment`);
+        }
+    }
+
+    if (raw.mask !== undefined && !isImageFile(raw.mask)) errors.push("The mask is not a valid image.");
+    const subjects: unknown[] = Array.isArray(raw.subjects) ? raw.subjects : [];
+    validateSubjects(subjects, errors);
+
+    const savedVariants: unknown[] = Array.isArray(raw.variants) ? raw.variants : [];
+    const variants = finishedVariants(savedVariants.filter((slot): slot is VariantSlot => isRecord(slot) && typeof slot.image === 'string'));
+    variants.forEach((slot, i) => checkRequest(slot.request, `Result ${i + 1}`, errors));
+    const savedHistory: unknown[] | undefined = Array.isArray(raw.history) ? raw.history : undefined;
+    const history = savedHistory?.filter((entry): entry is HistoryEntry =>
+        isRecord(entry) && typeof entry.id === 'string' && typeof entry.output === 'string');
+    history?.forEach((entry) => checkRequest(entry.request, `History entry from ${new Date(entry.createdAt).toLocaleString()}`, errors));
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid project: ${errors.join(' ')}`);
+    }
+    const { maxImageDimension, variantCount, selectedVariant } = raw;
+    return {
+        chain: { nodes: chain.nodes, rootId: chain.rootId, currentId: chain.currentId },
+        pose: {
+            text: poseSection.text ?? '',
+            image: poseSection.image,
+            source: pose.source === 'skeleton' ? 'skeleton' : 'photo',
+            keypoints: isKeypoints(pose.keypoints) ? pose.keypoints : DEFAULT_POSE,
+        },
+        clothing: section(raw.clothing, 'The clothing'),
+        outfit,
+        background: section(raw.background, 'The background'),
+        preserveBodyShape: raw.preserveBodyShape !== false,
+        mask: isImageFile(raw.mask) ? raw.mask : undefined,
+        // validateSubjects has checked every entry.
+        subjects: subjects as Subject[],
+        maxImageDimension: typeof maxImageDimension === 'number' && Number.isFinite(maxImageDimension) ? maxImageDimension : DEFAULT_MAX_IMAGE_DIMENSION,
+        variantCount: typeof variantCount === 'number' && Number.isInteger(variantCount) ? Math.min(MAX_VARIANTS, Math.max(1, variantCount)) : 1,
+        variants,
+        selectedVariant: typeof selectedVariant === 'number' && Number.isInteger(selectedVariant) && selectedVariant < variants.length ? selectedVariant : 0,
+        history,
+    };
+}
+
+/** A file name like `pose-changer-2024-05-01.posechanger.zip`. */
+export const projectFileName = (date: Date = new Date()): string =>
+    `pose-changer-${date.toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
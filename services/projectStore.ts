@@ -0,0 +1,22 @@
+import type { ProjectState } from '../types';
+import { withStore } from './db';
+
+const AUTOSAVE_KEY = 'current';
+
+export interface Autosave {
+    savedAt: number;
+    state: ProjectState;
+}
+
+/** Returns the last autosaved session, if one was left behind. */
+export async function loadAutosave(): Promise<Autosave | undefined> {
+    return withStore<Autosave | undefined>('autosave', 'readonly', (store) => store.get(AUTOSAVE_KEY));
+}
+
+export async function saveAutosave(state: ProjectState): Promise<void> {
+    await withStore('autosave', 'readwrite', (store) => store.put({ savedAt: Date.now(), state }, AUTOSAVE_KEY));
+}
+
+export async function clearAutosave(): Promise<void> {
+    await withStore('autosave', 'readwrite', (store) => store.delete(AUTOSAVE_KEY));
+}
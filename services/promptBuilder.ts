@@ -0,0 +1,94 @@
+import type { EditRequest, EditSection, ImageFile, PromptSection, PromptTemplate } from '../types';
+import type { GenerateImageInput } from './imageProvider';
+import { filledGarments, sectionText, toInlineImage } from './editRequest';
+import { GARMENT_NAMES } from './outfit';
+import { describeRegion, subjectText } from './subjects';
+import { DEFAULT_TEMPLATE_SET, renderTemplate } from './promptTemplates';
+import { USER_TEXT_NOTICE, sanitizeUserText } from './promptSafety';
+
+export type TemplateSet = Record<PromptSection, PromptTemplate>;
+
+const sectionCase = (section: EditSection | undefined): string => {
+    const hasText = sectionText(section) !== '';
+    if (section?.image) return hasText ? 'imageText' : 'image';
+    return hasText ? 'text' : 'none';
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+
+const ordinal = (position: number) => ORDINALS[position - 1] ?? `#${position}`;
+
+/**
+ * Reference images in the order they are attached after the person image,
+ * keyed by the prompt section that describes them (and the slot, for garments).
+ */
+function orderedReferences(request: EditRequest): Array<{ key: string; image: ImageFile }> {
+    const references: Array<{ key: string; image: ImageFile }> = [];
+    if (request.clothing?.image) references.push({ key: 'clothing', image: request.clothing.image });
+    for (const [slot, section] of filledGarments(request.outfit)) {
+        if (section.image) references.push({ key: `garment:${slot}`, image: section.image });
+    }
+    if (request.background?.image) references.push({ key: 'background', image: request.background.image });
+    if (request.pose?.image) references.push({ key: 'pose', image: request.pose.image });
+    if (request.mask) references.push({ key: 'mask', image: request.mask });
+    return references;
+}
+
+/** Builds the instruction text for a request. User text is sanitized and quoted by the templates. */
+export function buildPrompt(request: EditRequest, templates: TemplateSet = DEFAULT_TEMPLATE_SET): string {
+    const references = orderedReferences(request);
+    const render = (
+        section: PromptSection,
+        caseName: string,
+        content?: EditSection,
+        extra: Record<string, string> = {},
+        referenceKey: string = section
+    ): string => {
+        const position = references.findIndex((ref) => ref.key === referenceKey);
+        return renderTemplate(templates[section].cases[caseName] ?? '', {
+            text: sanitizeUserText(sectionText(content)),
+            // The person image is always first, so references start at "second".
+            image: position === -1 ? '' : ordinal(position + 2),
+            ...extra,
+        });
+    };
+
+    const subjects = (request.subjects ?? []).map((subject) => ({
+        ...subject,
+        label: sanitizeUserText(subject.label),
+        pose: subject.pose && sanitizeUserText(subject.pose),
+        clothing: subject.clothing && sanitizeUserText(subject.clothing),
+    }));
+    const hasUserText = [request.pose, request.clothing, request.background, ...filledGarments(request.outfit).map(([, section]) => section)]
+        .some((section) => sanitizeUserText(sectionText(section)) !== '')
+        || subjects.some((subject) => subject.label !== '' || subjectText(subject) !== '');
+    // Templates written before group photos were supported only have the default intro.
+    const intro = subjects.length > 0 && templates.intro.cases.group ? 'group' : 'default';
+    const pieces = [
+        render('intro', intro),
+        hasUserText ? USER_TEXT_NOTICE : '',
+        render('clothing', sectionCase(request.clothing), request.clothing),
+        ...filledGarments(request.outfit).map(([slot, section]) =>
+            render('garment', sectionCase(section), section, { garment: GARMENT_NAMES[slot] }, `garment:${slot}`)),
+        render('background', sectionCase(request.background), request.background),
+        render('pose', sectionCase(request.pose), request.pose),
+        // After the shared sections, so per-person instructions read as overrides.
+        ...subjects.map((subject) => render('subject', subjectText(subject) ? 'text' : 'none', undefined, {
+            label: subject.label,
+            region: describeRegion(subject.box),
+            text: subjectText(subject),
+        })),
+        request.mask ? render('mask', 'on') : '',
+        request.preserve.identity ? render('identity', 'on') : '',
+        request.preserve.bodyShape ? render('bodyShape', 'on') : '',
+    ];
+    return pieces.filter((piece) => piece !== '').join(' ');
+}
+
+export function buildGenerationInput(request: EditRequest, templates: TemplateSet = DEFAULT_TEMPLATE_SET): GenerateImageInput {
+    return {
+        person: toInlineImage(request.person),
+        references: orderedReferences(request).map((ref) => toInlineImage(ref.image)),
+        instructions: buildPrompt(request, templates),
+    };
+}
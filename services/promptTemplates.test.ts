@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextTemplateVersion, parseUserTemplate } from './promptTemplates';
+import type { PromptTemplate } from '../types';
+
+const template: PromptTemplate = { id: 'mine', name: 'Mine', version: 1, section: 'pose', cases: { text: 'Pose: "{{text}}".' } };
+
+describe('parseUserTemplate', () => {
+    it('reads back a saved template with its earlier versions', () => {
+        const saved = nextTemplateVersion(template, { name: 'Mine v2', cases: { text: 'New pose: "{{text}}".' } });
+        assert.deepEqual(parseUserTemplate(JSON.parse(JSON.stringify(saved))), saved);
+    });
+
+    it('rejects templates that buildPrompt could not render', () => {
+        assert.equal(parseUserTemplate({ ...template, cases: { text: 42 } }), null);
+        assert.equal(parseUserTemplate({ ...template, section: 'hair' }), null);
+        assert.equal(parseUserTemplate({ ...template, version: '2' }), null);
+        assert.equal(parseUserTemplate('mine'), null);
+    });
+
+    it('drops malformed earlier versions but keeps the template', () => {
+        const parsed = parseUserTemplate({ ...template, previousVersions: [{ version: 1, name: 'Old', cases: null }] });
+        assert.deepEqual(parsed, template);
+    });
+});
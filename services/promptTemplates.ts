@@ -0,0 +1,210 @@
+import type { PromptSection, PromptTemplate, TemplateSelection, TemplateVersion } from '../types';
+import { isRecord } from './editRequest';
+
+export const PROMPT_SECTIONS: PromptSection[] = ['intro', 'subject', 'clothing', 'garment', 'background', 'pose', 'mask', 'identity', 'bodyShape'];
+
+export const SECTION_LABELS: Record<PromptSection, string> = {
+    intro: 'Introduction',
+    subject: 'Selected person',
+    clothing: 'Clothing',
+    garment: 'Garment',
+    background: 'Background',
+    pose: 'Pose',
+    mask: 'Mask',
+    identity: 'Identity',
+    bodyShape: 'Body shape',
+};
+
+/**
+ * The cases each section chooses between. `image`, `imageText` and `text`
+ * apply when the section has a reference image, both, or only text; `none`
+ * when it is empty. Flag sections only have `on`. The intro's `group` case is
+ * used when people are selected in a group photo, and the subject section is
+ * rendered once per selected person.
+ */
+export const SECTION_CASES: Record<PromptSection, string[]> = {
+    intro: ['default', 'group'],
+    subject: ['text', 'none'],
+    clothing: ['image', 'imageText', 'text', 'none'],
+    garment: ['image', 'imageText', 'text'],
+    background: ['image', 'imageText', 'text', 'none'],
+    pose: ['image', 'imageText', 'text', 'none'],
+    mask: ['on'],
+    identity: ['on'],
+    bodyShape: ['on'],
+};
+
+export const TEMPLATE_VARIABLES: Record<string, string> = {
+    text: "The user's text for the section",
+    image: 'Position of the section\'s image among all images, e.g. "second"',
+    garment: 'The garment slot, e.g. "shoes" (garment only)',
+    label: 'Name of the selected person, e.g. "Person 1" (selected person only)',
+    region: 'Where the selected person is in the image (selected person only)',
+};
+
+const builtIn = (section: PromptSection, cases: Record<string, string>, version = 1): PromptTemplate => ({
+    id: `default-${section}`,
+    name: 'Default',
+    version,
+    section,
+    cases,
+    builtIn: true,
+});
+
+const CLOTHING_IMAGE = 'Use the {{image}} image as a reference to change the clothing of the person in the first image.';
+const GARMENT_IMAGE = 'Dress the person in the {{garment}} shown in the {{image}} image, taking only that garment from it.';
+const BACKGROUND_IMAGE = 'Place the person into the provided background image.';
+const POSE_IMAGE = 'The {{image}} image defines the target pose; it may be a photo of someone else or a stick-figure diagram where orange limbs are the left side and blue limbs the right. Change their pose to match it exactly, without copying anything else from that image.';
+
+export const DEFAULT_TEMPLATES: PromptTemplate[] = [
+    builtIn('intro', {
+        default: 'Given the provided images and instructions, generate a new image. The first image is always the person to be modified.',
+        group: 'Given the provided images and instructions, generate a new image. The first image is a photo of several people. Only edit the selected people named in these instructions and leave everyone else in the photo exactly as they are.',
+    }, 2),
+    builtIn('subject', {
+        text: 'Edit "{{label}}", the person {{region}}, and for them specifically use {{text}}.',
+        none: 'Edit "{{label}}", the person {{region}}.',
+    }, 2),
+    builtIn('clothing', {
+        image: CLOTHING_IMAGE,
+        imageText: `${CLOTHING_IMAGE} When doing so, also follow these instructions: "{{text}}".`,
+        text: 'Change their clothing and style to be: "{{text}}".',
+        none: '',
+    }, 2),
+    builtIn('garment', {
+        image: GARMENT_IMAGE,
+        imageText: `${GARMENT_IMAGE} For the {{garment}}, also follow these instructions: "{{text}}".`,
+        text: 'Change their {{garment}} to: "{{text}}".',
+    }),
+    builtIn('background', {
+        image: BACKGROUND_IMAGE,
+        imageText: `${BACKGROUND_IMAGE} When doing so, follow these instructions: "{{text}}".`,
+        text: 'Also, change the background to be: "{{text}}".',
+        none: 'Keep the original background.',
+    }),
+    builtIn('pose', {
+        image: POSE_IMAGE,
+        imageText: `${POSE_IMAGE} Also follow these pose instructions: "{{text}}".`,
+        text: 'Change their pose to be: "{{text}}".',
+        none: 'Keep their original pose.',
+    }, 3),
+    builtIn('mask', {
+        on: 'The {{image}} image is a black-and-white mask of the first image. Only change the areas that are white in the mask and leave everything in the black areas exactly as it is.',
+    }),
+    builtIn('identity', {
+        on: "The person's facial features and identity from the original image must be preserved.",
+    }),
+    builtIn('bodyShape', {
+        on: "It is crucial to also preserve the person's original body shape and size. Do not make them thinner, larger, or change their proportions.",
+    }),
+];
+
+export const DEFAULT_SELECTION = Object.fromEntries(
+    PROMPT_SECTIONS.map((section) => [section, `default-${section}`])
+) as TemplateSelection;
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Substitutes `{{name}}` placeholders; unknown variables render as empty text. */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+    return template.replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '').trim();
+}
+
+export function listVariables(template: string): string[] {
+    return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+}
+
+/** Picks the selected template for every section, falling back to the default. */
+export function resolveTemplates(
+    selection: TemplateSelection,
+    userTemplates: PromptTemplate[]
+): Record<PromptSection, PromptTemplate> {
+    const all = [...DEFAULT_TEMPLATES, ...userTemplates];
+    return Object.fromEntries(PROMPT_SECTIONS.map((section) => {
+        const chosen = all.find((t) => t.section === section && t.id === selection[section]);
+        return [section, chosen ?? DEFAULT_TEMPLATES.find((t) => t.section === section)!];
+    })) as Record<PromptSection, PromptTemplate>;
+}
+
+export const DEFAULT_TEMPLATE_SET = resolveTemplates(DEFAULT_SELECTION, []);
+
+/** The next version of a user template; the version it replaces is kept in `previousVersions`. */
+export function nextTemplateVersion(template: PromptTemplate, changes: Pick<PromptTemplate, 'name' | 'cases'>): PromptTemplate {
+    const { version, name, cases, previousVersions = [] } = template;
+    return {
+        ...template,
+        ...changes,
+        version: version + 1,
+        previousVersions: [...previousVersions, { version, name, cases }],
+    };
+}
+
+const TEMPLATES_KEY = 'pose-changer:prompt-templates';
+const SELECTION_KEY = 'pose-changer:template-selection';
+
+const readJson = (key: string): unknown => {
+    if (typeof localStorage === 'undefined') return undefined;
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : undefined;
+    } catch (e) {
+        console.error(`Failed to read ${key} from local storage:`, e);
+        return undefined;
+    }
+};
+
+const isCases = (value: unknown): value is Record<string, string> =>
+    isRecord(value) && Object.values(value).every((text) => typeof text === 'string');
+
+const isVersionNumber = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const parseTemplateVersion = (value: unknown): TemplateVersion | null =>
+    isRecord(value) && isVersionNumber(value.version) && typeof value.name === 'string' && isCases(value.cases)
+        ? { version: value.version, name: value.name, cases: value.cases }
+        : null;
+
+/** Reads a saved user template from untrusted JSON, or null when it is malformed. */
+export function parseUserTemplate(value: unknown): PromptTemplate | null {
+    if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string' || !isVersionNumber(value.version)
+        || !PROMPT_SECTIONS.includes(value.section as PromptSection) || !isCases(value.cases)) {
+        return null;
+    }
+    const previousVersions = Array.isArray(value.previousVersions)
+        ? value.previousVersions.map(parseTemplateVersion).filter((version): version is TemplateVersion => version !== null)
+        : [];
+    return {
+        id: value.id,
+        name: value.name,
+        version: value.version,
+        section: value.section as PromptSection,
+        cases: value.cases,
+        ...(previousVersions.length > 0 ? { previousVersions } : {}),
+    };
+}
+
+const writeJson = (key: string, value: unknown) => {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(key, JSON.stringify(value));
+};
+
+/** Reads the saved user templates, skipping any that are malformed so their sections fall back to the defaults. */
+export function loadUserTemplates(): PromptTemplate[] {
+    const saved = readJson(TEMPLATES_KEY);
+    if (!Array.isArray(saved)) return [];
+    return saved.flatMap((value) => {
+        const template = parseUserTemplate(value);
+        if (!template) console.warn(`Ignoring a malformed prompt template in ${TEMPLATES_KEY}.`);
+        return template ? [template] : [];
+    });
+}
+export const saveUserTemplates = (templates: PromptTemplate[]) => writeJson(TEMPLATES_KEY, templates);
+
+export function loadTemplateSelection(): TemplateSelection {
+    const saved = readJson(SELECTION_KEY);
+    if (!isRecord(saved)) return { ...DEFAULT_SELECTION };
+    return Object.fromEntries(PROMPT_SECTIONS.map((section) => {
+        const id = saved[section];
+        return [section, typeof id === 'string' ? id : DEFAULT_SELECTION[section]];
+    })) as TemplateSelection;
+}
+export const saveTemplateSelection = (selection: TemplateSelection) => writeJson(SELECTION_KEY, selection);
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from './mockProvider';
+import type { GenerateImageInput } from '../imageProvider';
+import type { GenerationStage } from '../../types';
+
+const input: GenerateImageInput = {
+    person: { data: 'cGVyc29u', mimeType: 'image/jpeg' },
+    references: [{ data: 'cmVm', mimeType: 'image/png' }],
+    instructions: 'Change their pose to be: "waving".',
+};
+
+describe('mock provider', () => {
+    let savedUrl: string | undefined;
+
+    beforeEach(() => {
+        savedUrl = process.env.MOCK_PROVIDER_URL;
+        delete process.env.MOCK_PROVIDER_URL;
+    });
+
+    afterEach(() => {
+        if (savedUrl === undefined) delete process.env.MOCK_PROVIDER_URL;
+        else process.env.MOCK_PROVIDER_URL = savedUrl;
+    });
+
+    it('echoes the person image without a DOM and reports both stages', async () => {
+        const stages: GenerationStage[] = [];
+        const image = await createMockProvider().generateImage(input, { onStage: (stage) => stages.push(stage) });
+        assert.equal(image, 'data:image/jpeg;base64,cGVyc29u');
+        assert.deepEqual(stages, ['uploading', 'generating']);
+    });
+
+    it('rejects once the signal has aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(createMockProvider().generateImage(input, { signal: controller.signal }), { name: 'AbortError' });
+    });
+
+    it('returns texts to translate unchanged', async () => {
+        const texts = ['bras levés', 'sitting'];
+        assert.deepEqual(await createMockProvider().translateText?.(texts), texts);
+    });
+});
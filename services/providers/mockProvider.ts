@@ -0,0 +1,90 @@
+import type { GenerateImageInput, GenerateOptions, ImageProvider, InlineImage } from '../imageProvider';
+import { loadImageElement } from '../imageUtils';
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    loadImageElement(src).catch(() => {
+        throw new Error("Mock provider could not decode an input image.");
+    });
+
+/**
+ * Draws the person image full size with each reference image as a thumbnail
+ * along the bottom edge. The output depends only on the inputs.
+ */
+async function composite({ person, references }: GenerateImageInput): Promise<string> {
+    const base = await loadImage(toDataUrl(person));
+    const canvas = document.createElement('canvas');
+    canvas.width = base.naturalWidth;
+    canvas.height = base.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Mock provider could not create a canvas context.");
+    }
+    ctx.drawImage(base, 0, 0);
+
+    const thumbSize = Math.round(Math.min(canvas.width, canvas.height) / 4);
+    const margin = Math.round(thumbSize / 8);
+    for (let i = 0; i < references.length; i++) {
+        const ref = await loadImage(toDataUrl(references[i]));
+        const scale = Math.min(thumbSize / ref.naturalWidth, thumbSize / ref.naturalHeight);
+        const w = ref.naturalWidth * scale;
+        const h = ref.naturalHeight * scale;
+        const x = margin + i * (thumbSize + margin);
+        const y = canvas.height - margin - h;
+        ctx.drawImage(ref, x, y, w, h);
+        ctx.strokeStyle = '#22d3ee';
+        ctx.lineWidth = Math.max(2, Math.round(thumbSize / 40));
+        ctx.strokeRect(x, y, w, h);
+    }
+
+    return canvas.toDataURL('image/png');
+}
+
+async function callStandIn(url: string, input: GenerateImageInput, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+        signal,
+    });
+    if (!response.ok) {
+        throw Object.assign(new Error(`Mock provider endpoint returned HTTP ${response.status}.`), { status: response.status });
+    }
+    const body = await response.json() as { image?: string };
+    if (!body.image) {
+        throw new Error("Mock provider endpoint returned no image.");
+    }
+    return body.image;
+}
+
+/**
+ * Offline stand-in for a real model. With `MOCK_PROVIDER_URL` set it posts the
+ * request to that endpoint and expects `{ "image": "<data URL>" }` back;
+ * otherwise it composites the inputs locally, or echoes the person image where
+ * no DOM canvas is available.
+ */
+export function createMockProvider(): ImageProvider {
+    return {
+        id: 'mock',
+        async generateImage(input: GenerateImageInput, { signal, onStage }: GenerateOptions = {}): Promise<string> {
+            signal?.throwIfAborted();
+            onStage?.('uploading');
+            const endpoint = process.env.MOCK_PROVIDER_URL;
+            if (endpoint) {
+                onStage?.('generating');
+                return callStandIn(endpoint, input, signal);
+            }
+            onStage?.('generating');
+            const image = typeof document === 'undefined' ? toDataUrl(input.person) : await composite(input);
+            signal?.throwIfAborted();
+            return image;
+        },
+
+        /** Returns the texts unchanged. */
+        async translateText(texts: string[], { signal }: Pick<GenerateOptions, 'signal'> = {}): Promise<string[]> {
+            signal?.throwIfAborted();
+            return texts;
+        },
+    };
+}
@@ -0,0 +1,58 @@
+import type { GenerateImageInput, GenerateOptions, ImageProvider } from '../imageProvider';
+import { GenerationError, type GenerationErrorKind } from '../errors';
+
+interface ProxyErrorBody {
+    error?: { kind?: GenerationErrorKind; message?: string; detail?: string };
+}
+
+/** The error for a failed response, keeping the kind the server classified it as. */
+function proxyError(status: number, body: ProxyErrorBody): Error {
+    const { kind, message, detail } = body.error ?? {};
+    if (kind) {
+        return new GenerationError(kind, message ?? 'The server could not process the request.', { detail });
+    }
+    return Object.assign(new Error(`The server returned HTTP ${status}.`), { status });
+}
+
+/**
+ * Sends generation and translation requests to the backend in server/, which
+ * holds the API key. The endpoint defaults to the page's own origin; set
+ * `PROXY_URL` to use another.
+ */
+export function createProxyProvider(): ImageProvider {
+    return {
+        id: 'proxy',
+        // The server retries upstream failures; a 429 from it is its own rate limit, which a quick retry only prolongs.
+        retriesUpstream: true,
+        async generateImage(input: GenerateImageInput, { signal, onStage }: GenerateOptions = {}): Promise<string> {
+            onStage?.('uploading');
+            const response = await fetch(`${process.env.PROXY_URL ?? ''}/api/edit`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+                signal,
+            });
+            onStage?.('generating');
+            const body = await response.json().catch(() => ({})) as { image?: string } & ProxyErrorBody;
+
+            if (!response.ok || !body.image) {
+                throw proxyError(response.status, body);
+            }
+            return body.image;
+        },
+
+        async translateText(texts: string[], { signal }: Pick<GenerateOptions, 'signal'> = {}): Promise<string[]> {
+            const response = await fetch(`${process.env.PROXY_URL ?? ''}/api/translate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ texts }),
+                signal,
+            });
+            const body = await response.json().catch(() => ({})) as { texts?: string[] } & ProxyErrorBody;
+            if (!response.ok || !Array.isArray(body.texts)) {
+                throw proxyError(response.status, body);
+            }
+            return body.texts;
+        },
+    };
+}
@@ -0,0 +1,50 @@
+import { classifyError } from './errors';
+
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    retries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 8000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Calls `fn` until it succeeds, retrying only transient failures with
+ * exponential backoff and full jitter. Non-retryable errors are rethrown
+ * immediately, classified. Nothing is retried once `signal` has aborted.
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+    signal?: AbortSignal
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn();
+        } catch (e) {
+            const error = classifyError(e);
+            if (!error.retryable || attempt >= options.retries || signal?.aborted) {
+                throw error;
+            }
+            const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+            await sleep(Math.random() * ceiling, signal);
+        }
+    }
+}
@@ -0,0 +1,89 @@
+import type { Subject, SubjectBox } from '../types';
+import { MAX_USER_TEXT_LENGTH } from '../constants';
+
+/** Size of the box placed when the user clicks a person instead of drawing one. */
+const CLICK_BOX = { width: 0.25, height: 0.7 };
+
+/** Boxes smaller than this (in either direction) are treated as clicks. */
+export const MIN_BOX_SIZE = 0.03;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Keeps a box inside the image. */
+export function clampBox(box: SubjectBox): SubjectBox {
+    const width = clamp(box.width, 0, 1);
+    const height = clamp(box.height, 0, 1);
+    return { x: clamp(box.x, 0, 1 - width), y: clamp(box.y, 0, 1 - height), width, height };
+}
+
+/** Normalizes a drag from one corner to the other into a box. */
+export function boxFromCorners(a: { x: number; y: number }, b: { x: number; y: number }): SubjectBox {
+    return clampBox({ x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y) });
+}
+
+/** A person-shaped box centred on a clicked point, for the user to adjust. */
+export function boxAroundPoint(point: { x: number; y: number }): SubjectBox {
+    return clampBox({
+        x: point.x - CLICK_BOX.width / 2,
+        y: point.y - CLICK_BOX.height / 2,
+        width: CLICK_BOX.width,
+        height: CLICK_BOX.height,
+    });
+}
+
+/** Picks the next free "Person N" label. */
+export function createSubject(box: SubjectBox, existing: Subject[]): Subject {
+    const used = new Set(existing.map((subject) => subject.label));
+    let n = 1;
+    while (used.has(`Person ${n}`)) n++;
+    return { id: crypto.randomUUID(), label: `Person ${n}`, box };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Describes where a box is in words the model can follow, e.g. "on the left,
+ * within 5%–30% of the width and 10%–95% of the height from the top left".
+ */
+export function describeRegion(box: SubjectBox): string {
+    const centerX = box.x + box.width / 2;
+    const side = centerX < 1 / 3 ? 'on the left' : centerX > 2 / 3 ? 'on the right' : 'in the middle';
+    return `${side}, within ${percent(box.x)}–${percent(box.x + box.width)} of the width `
+        + `and ${percent(box.y)}–${percent(box.y + box.height)} of the height from the top left`;
+}
+
+/** The subject's own instructions joined into one phrase, or '' when there are none. */
+export function subjectText(subject: Subject): string {
+    const parts: string[] = [];
+    if (subject.pose?.trim()) parts.push(`pose "${subject.pose.trim()}"`);
+    if (subject.clothing?.trim()) parts.push(`clothing "${subject.clothing.trim()}"`);
+    return parts.join(' and ');
+}
+
+export function validateSubjects(subjects: unknown, errors: string[]): void {
+    if (!Array.isArray(subjects)) {
+        errors.push("Subjects must be a list.");
+        return;
+    }
+    subjects.forEach((subject: Partial<Subject>, index) => {
+        const label = `Subject ${index + 1}`;
+        if (!subject || typeof subject.label !== 'string' || !subject.label.trim()) {
+            errors.push(`${label} needs a label.`);
+        }
+        const box = subject?.box;
+        const inRange = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+        if (!box || ![box.x, box.y, box.width, box.height].every(inRange) || box.width <= 0 || box.height <= 0
+            || box.x + box.width > 1.0001 || box.y + box.height > 1.0001) {
+            errors.push(`${label} must have a box inside the image.`);
+        }
+        if ((subject?.pose !== undefined && typeof subject.pose !== 'string')
+            || (subject?.clothing !== undefined && typeof subject.clothing !== 'string')) {
+            errors.push(`${label} pose and clothing must be text.`);
+        } else if ([subject?.pose, subject?.clothing].some((text) => text && text.trim().length > MAX_USER_TEXT_LENGTH)) {
+            errors.push(`${label} pose and clothing must each be at most ${MAX_USER_TEXT_LENGTH} characters.`);
+        }
+        if (typeof subject?.label === 'string' && subject.label.length > MAX_USER_TEXT_LENGTH) {
+            errors.push(`${label} label must be at most ${MAX_USER_TEXT_LENGTH} characters.`);
+        }
+    });
+}
@@ -0,0 +1,55 @@
+import type { EditRequest, EditSection, Outfit } from '../types';
+import { getImageProvider } from './imageProvider';
+import { GenerationError } from './errors';
+import { filledGarments, sectionText } from './editRequest';
+
+// Translations are kept for the session so variants and retries of the same request translate once.
+const cache = new Map<string, string>();
+
+/** Translates texts into English through the active provider, reusing earlier translations. */
+export async function translateTexts(texts: string[], signal?: AbortSignal): Promise<string[]> {
+    const provider = getImageProvider();
+    const missing = [...new Set(texts.filter((text) => text && !cache.has(text)))];
+    if (missing.length > 0) {
+        if (!provider.translateText) {
+            throw new GenerationError('invalidRequest', `The "${provider.id}" provider cannot translate descriptions. Turn off translation to continue.`);
+        }
+        const translated = await provider.translateText(missing, { signal });
+        missing.forEach((text, i) => cache.set(text, translated[i].trim() || text));
+    }
+    return texts.map((text) => (text ? cache.get(text) ?? text : text));
+}
+
+/** A copy of the request with every user description translated into English. */
+export async function translateRequest(request: EditRequest, signal?: AbortSignal): Promise<EditRequest> {
+    const sections = { pose: request.pose, clothing: request.clothing, background: request.background };
+    const garments = filledGarments(request.outfit);
+    const subjects = request.subjects ?? [];
+    const texts = [
+        ...Object.values(sections).map(sectionText),
+        ...garments.map(([, section]) => sectionText(section)),
+        ...subjects.flatMap((subject) => [subject.pose?.trim() ?? '', subject.clothing?.trim() ?? '']),
+    ];
+    if (texts.every((text) => text === '')) return request;
+
+    const translated = await translateTexts(texts, signal);
+    let next = 0;
+    const take = () => translated[next++];
+    const withText = (section: EditSection | undefined): EditSection | undefined => {
+        const text = take();
+        return section && { ...section, text };
+    };
+    const result: EditRequest = {
+        ...request,
+        pose: withText(sections.pose),
+        clothing: withText(sections.clothing),
+        background: withText(sections.background),
+    };
+    if (garments.length > 0) {
+        result.outfit = Object.fromEntries(garments.map(([slot, section]) => [slot, withText(section)])) as Outfit;
+    }
+    if (subjects.length > 0) {
+        result.subjects = subjects.map((subject) => ({ ...subject, pose: take() || undefined, clothing: take() || undefined }));
+    }
+    return result;
+}
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { crc32, createZip, readZip } from './zip';
+
+const encoder = new TextEncoder();
+
+describe('zip', () => {
+    it('computes the standard CRC-32', () => {
+        assert.equal(crc32(encoder.encode('123456789')), 0xcbf43926);
+    });
+
+    it('reads back the entries it writes', async () => {
+        const entries = [
+            { name: 'project.json', data: encoder.encode('{"version":1}') },
+            { name: 'images/ärmel 1.png', data: new Uint8Array([137, 80, 78, 71, 0, 255]) },
+            { name: 'empty.txt', data: new Uint8Array() },
+        ];
+        assert.deepEqual(await readZip(createZip(entries)), entries);
+    });
+
+    it('rejects data that is not a zip', async () => {
+        await assert.rejects(readZip(encoder.encode('not a zip file')));
+    });
+});
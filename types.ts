@@ -3,3 +3,256 @@ export interface ImageFile {
   dataUrl: string;
   mimeType: string;
 }
+
+/** One optional part of an edit, described by a reference image, text, or both. */
+export interface EditSection {
+  image?: ImageFile;
+  text?: string;
+}
+
+export type GarmentSlot = 'top' | 'bottom' | 'shoes' | 'outerwear' | 'accessories';
+
+export type Outfit = Partial<Record<GarmentSlot, EditSection>>;
+
+export interface PreservationFlags {
+  identity: boolean;
+  bodyShape: boolean;
+}
+
+/**
+ * Everything needed to run one generation. This is the shared format for
+ * presets, history entries, batch jobs and tests; see services/editRequest.ts
+ * for validation and JSON serialization.
+ */
+export interface EditRequest {
+  person: ImageFile;
+  pose?: EditSection;
+  clothing?: EditSection;
+  /** Individual garments, each with its own reference image and/or text. */
+  outfit?: Outfit;
+  background?: EditSection;
+  /** Black-and-white mask the size of the person image; only white areas may change. */
+  mask?: ImageFile;
+  /** People to edit in a group photo; when present, everyone else is left unchanged. */
+  subjects?: Subject[];
+  preserve: PreservationFlags;
+}
+
+/** A rectangle in normalized 0–1 image coordinates with the origin at the top left. */
+export interface SubjectBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One selected person in the input image. The shared pose, clothing and
+ * background settings apply to every subject; `pose` and `clothing` add
+ * instructions for this person only.
+ */
+export interface Subject {
+  id: string;
+  label: string;
+  box: SubjectBox;
+  pose?: string;
+  clothing?: string;
+}
+
+export type PromptSection = 'intro' | 'subject' | 'clothing' | 'garment' | 'background' | 'pose' | 'mask' | 'identity' | 'bodyShape';
+
+/**
+ * A named, versioned instruction template for one prompt section. Each case is
+ * a string that may reference variables as `{{name}}`.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  section: PromptSection;
+  cases: Record<string, string>;
+  builtIn?: boolean;
+  /** Earlier saved versions of a user template, oldest first. */
+  previousVersions?: TemplateVersion[];
+}
+
+export interface TemplateVersion {
+  version: number;
+  name: string;
+  cases: Record<string, string>;
+}
+
+/** The template chosen for each section, by id. */
+export type TemplateSelection = Record<PromptSection, string>;
+
+/** One completed generation, as stored in the local history. */
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+  request: EditRequest;
+  prompt: string;
+  output: string;
+  /** Model and generation settings in effect; missing on entries made before settings existed. */
+  settings?: GenerationSettings;
+  /** Id of the image provider that generated the output. */
+  provider?: string;
+}
+
+/** One slot in the result grid when several variants are generated at once. */
+export interface VariantSlot {
+  status: 'pending' | 'done' | 'failed';
+  /** Progress of a pending slot. */
+  stage?: GenerationStage;
+  image?: string;
+  error?: string;
+  /** The request that produced the image. */
+  request?: EditRequest;
+  /** Filled in after the result has been checked against the original. */
+  scores?: PreservationScores;
+  /** The model and generation settings that produced the image. */
+  settings?: GenerationSettings;
+  /** Id of the image provider that produced the image. */
+  provider?: string;
+  /** The prompt as sent to the provider, after any translation. */
+  prompt?: string;
+}
+
+/**
+ * One step of an iterative editing session. The root holds the uploaded image;
+ * every other node holds a generated result and the request that produced it.
+ */
+export interface ChainNode {
+  id: string;
+  parentId: string | null;
+  image: ImageFile;
+  request?: EditRequest;
+  createdAt: number;
+  /** The child that redo moves to; the most recently visited branch. */
+  lastChildId?: string;
+}
+
+export interface EditChain {
+  nodes: Record<string, ChainNode>;
+  rootId: string;
+  currentId: string;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/** One person image in a batch run that shares a single edit configuration. */
+export interface BatchJob {
+  id: string;
+  name: string;
+  image: ImageFile;
+  status: BatchJobStatus;
+  output?: string;
+  error?: string;
+}
+
+/** One keyframe of a pose sequence; every frame is generated from the original image. */
+export interface SequenceFrame {
+  id: string;
+  text: string;
+  /** A stick-figure pose, sent as the pose reference when set. */
+  keypoints?: PoseKeypoints;
+  durationMs: number;
+  status: BatchJobStatus;
+  output?: string;
+  error?: string;
+}
+
+export type PoseJoint =
+  | 'head' | 'neck'
+  | 'leftShoulder' | 'rightShoulder' | 'leftElbow' | 'rightElbow' | 'leftWrist' | 'rightWrist'
+  | 'leftHip' | 'rightHip' | 'leftKnee' | 'rightKnee' | 'leftAnkle' | 'rightAnkle';
+
+export interface Keypoint {
+  x: number;
+  y: number;
+}
+
+/** Stick-figure joint positions, normalized to 0–1 with the origin at the top left. */
+export type PoseKeypoints = Record<PoseJoint, Keypoint>;
+
+/** Coarse progress of a single generation request, in order. */
+export type GenerationStage = 'preparing' | 'uploading' | 'generating' | 'decoding';
+
+/**
+ * A named bundle of step 2 settings that can be applied in one click. Built-in
+ * presets ship with the app; user presets are stored locally and can be shared
+ * as JSON files.
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  tags: string[];
+  pose?: string;
+  clothing?: EditSection;
+  outfit?: Outfit;
+  background?: EditSection;
+  preserveBodyShape: boolean;
+  /** Small preview image as a data URL. */
+  thumbnail: string;
+  createdAt: number;
+  builtIn?: boolean;
+}
+
+/**
+ * How closely a result keeps the original person, from 0 to 1. A score is
+ * null when the face or body could not be found in one of the images.
+ */
+export interface PreservationScores {
+  identity: number | null;
+  bodyShape: number | null;
+}
+
+/**
+ * The editor's inputs and results, as saved in a project file or the local
+ * autosave. Images are data URLs; project files store them as separate
+ * entries, see services/project.ts.
+ */
+export interface ProjectState {
+  chain: EditChain;
+  pose: {
+    text: string;
+    image?: ImageFile;
+    source: 'photo' | 'skeleton';
+    keypoints: PoseKeypoints;
+  };
+  clothing: EditSection;
+  outfit: Outfit;
+  background: EditSection;
+  preserveBodyShape: boolean;
+  mask?: ImageFile;
+  subjects: Subject[];
+  maxImageDimension: number;
+  variantCount: number;
+  /** Finished results only; pending and failed slots are not saved. */
+  variants: VariantSlot[];
+  selectedVariant: number;
+  /** Included in project files; the autosave leaves it out because history is already stored locally. */
+  history?: HistoryEntry[];
+}
+
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+export type SafetyThreshold = 'blockLowAndAbove' | 'blockMediumAndAbove' | 'blockOnlyHigh' | 'blockNone';
+
+/**
+ * Model choice and sampling options sent with each generation. Optional
+ * fields fall back to the model's own defaults; see
+ * services/generationSettings.ts for the supported values.
+ */
+export interface GenerationSettings {
+  model: string;
+  temperature?: number;
+  seed?: number;
+  /** Categories without an entry keep the provider's default threshold. */
+  safety: Partial<Record<SafetyCategory, SafetyThreshold>>;
+  /** Width:height of the output, such as "4:5"; omitted to let the model decide. */
+  aspectRatio?: string;
+  /** Sent to the model as its system instruction; omitted to send none. */
+  systemInstruction?: string;
+  /** Translate the user's descriptions into English before building the prompt. */
+  translatePrompts?: boolean;
+}
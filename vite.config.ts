@@ -5,8 +5,17 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The API key stays on the server (see server/); it must never be inlined here.
+        'process.env.API_KEY': 'undefined',
+        'process.env.GEMINI_BASE_URL': 'undefined',
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.MOCK_PROVIDER_URL': JSON.stringify(env.MOCK_PROVIDER_URL),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL)
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.SERVER_PORT || 8787}`,
+        },
       },
       resolve: {
         alias: {